@@ -0,0 +1,86 @@
+// batching.test.ts
+// 自动批处理与 flushSync：同一任务内的更新合并为一次提交；render / commit 中调用 flushSync 推迟到提交结束后处理；
+// 冲刷中某个 root 抛出的错误在其余 root 处理完后抛给调用方
+import { describe, it, expect, vi } from 'vitest';
+import { createElement as h, createTestRenderer, createReconciler, testHostConfig, act, flushSync, useState, useLayoutEffect, getCommitBatchStats, type TestHostContainer } from '../index';
+import { debugConfig } from '../fiber';
+
+debugConfig.enable = false; // 关闭 reconciler 调试日志
+
+describe('批处理 / flushSync', () => {
+  it('同一任务内的多次 setState 合并为一次 render 与提交', () => {
+    let renders = 0;
+    let setters: Array<(update: (n: number) => number) => void> = [];
+    function Counter() {
+      const [a, setA] = useState(0);
+      const [b, setB] = useState(0);
+      const [c, setC] = useState(0);
+      setters = [setA, setB, setC];
+      renders++;
+      return h('span', null, `${a}${b}${c}`);
+    }
+    const renderer = createTestRenderer(h(Counter, null));
+    renders = 0;
+    act(() => setters.forEach(set => set(n => n + 1)));
+    expect(renders).toBe(1);
+    expect(renderer.toJSON()).toEqual({ type: 'span', props: {}, children: ['111'] });
+    expect(getCommitBatchStats().latest?.updates).toBe(3);
+  });
+
+  it('flushSync 在返回前同步提交其中的更新', () => {
+    let setValue!: (value: string) => void;
+    function Label() {
+      const [value, set] = useState('a');
+      setValue = set;
+      return h('i', null, value);
+    }
+    const renderer = createTestRenderer(h(Label, null));
+    flushSync(() => setValue('b'));
+    expect(renderer.toJSON()).toEqual({ type: 'i', props: {}, children: ['b'] });
+  });
+
+  it('layout effect 中调用 flushSync：不重入当前提交，提交结束后同步处理', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log: string[] = [];
+    function Measure() {
+      const [width, setWidth] = useState(0);
+      useLayoutEffect(() => {
+        log.push('measure create');
+        flushSync(() => setWidth(100));
+        return () => log.push('measure destroy');
+      }, []);
+      return h('div', null, `width=${width}`);
+    }
+    function Sibling() {
+      useLayoutEffect(() => { log.push('sibling create'); }, []);
+      return null;
+    }
+    const renderer = createTestRenderer(h('main', null, h(Measure, null), h(Sibling, null)));
+    // 外层提交的 layout effect 全部执行且各一次；flushSync 的更新在 createTestRenderer 返回前已提交
+    expect(log).toEqual(['measure create', 'sibling create']);
+    expect(renderer.toJSON()).toEqual({ type: 'main', props: {}, children: [{ type: 'div', props: {}, children: ['width=100'] }] });
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('flushSync 在 render / commit 期间被调用'));
+    consoleError.mockRestore();
+  });
+
+  it('冲刷中某个 root 抛错：其余 root 照常提交，错误抛给 flushSync 调用方', () => {
+    const setters: Array<(value: string) => void> = [];
+    function Text() {
+      const [value, set] = useState('a');
+      setters.push(set);
+      return value;
+    }
+    // 宿主更新文本时失败的 root
+    const broken = createReconciler({ ...testHostConfig, commitTextUpdate() { throw new Error('host failure'); } });
+    const container: TestHostContainer = { kind: 'container', children: [] };
+    flushSync(() => broken.createRoot(container).render(h(Text, null)));
+    const healthy = createTestRenderer(h(Text, null));
+    const [setBroken, setHealthy] = setters;
+
+    expect(() => flushSync(() => { setBroken('b'); setHealthy('b'); })).toThrow('host failure');
+    expect(healthy.toJSON()).toBe('b');
+    // 错误之后不残留执行中的 root：再次 flushSync 正常同步提交
+    flushSync(() => setHealthy('c'));
+    expect(healthy.toJSON()).toBe('c');
+  });
+});
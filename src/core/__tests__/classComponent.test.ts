@@ -0,0 +1,85 @@
+// classComponent.test.ts
+// 类组件：setState 合并与回调、shouldComponentUpdate / PureComponent、forceUpdate、生命周期在各提交子阶段的顺序
+import { describe, it, expect } from 'vitest';
+import { createElement as h, createTestRenderer, act, Component, PureComponent } from '../index';
+import { debugConfig } from '../fiber';
+
+debugConfig.enable = false; // 关闭 reconciler 调试日志
+
+describe('类组件', () => {
+  it('setState 合并 partial state，回调在提交后执行并读到新 state', () => {
+    const log: string[] = [];
+    let form!: Form;
+    class Form extends Component<{}, { name: string; age: number }> {
+      state = { name: 'a', age: 1 };
+      constructor(props: {}) { super(props); form = this; }
+      render() { return `${this.state.name}/${this.state.age}`; }
+    }
+    const renderer = createTestRenderer(h(Form, null));
+    act(() => {
+      form.setState({ name: 'b' }, () => log.push(`callback ${form.state.name}/${form.state.age}`));
+      form.setState(state => ({ age: state.age + 1 }));
+    });
+    expect(renderer.toJSON()).toBe('b/2');
+    expect(log).toEqual(['callback b/2']);
+  });
+
+  it('shouldComponentUpdate 返回 false 时跳过 render，forceUpdate 绕过它', () => {
+    let renders = 0;
+    let gate!: Gate;
+    class Gate extends Component<{ value: number }, { n: number }> {
+      state = { n: 0 };
+      constructor(props: { value: number }) { super(props); gate = this; }
+      shouldComponentUpdate(nextProps: { value: number }) { return nextProps.value % 2 === 0; }
+      render() { renders++; return `${this.props.value}:${this.state.n}`; }
+    }
+    const renderer = createTestRenderer(h(Gate, { value: 0 }));
+    renderer.update(h(Gate, { value: 1 }));
+    expect(renderer.toJSON()).toBe('0:0');
+    expect(renders).toBe(1);
+
+    act(() => gate.forceUpdate());
+    expect(renderer.toJSON()).toBe('1:0');
+    expect(renders).toBe(2);
+  });
+
+  it('PureComponent 在 props 与 state 浅相等时跳过 render', () => {
+    let renders = 0;
+    class Row extends PureComponent<{ label: string }> {
+      render() { renders++; return this.props.label; }
+    }
+    const renderer = createTestRenderer(h(Row, { label: 'x' }));
+    renderer.update(h(Row, { label: 'x' }));
+    expect(renders).toBe(1);
+    renderer.update(h(Row, { label: 'y' }));
+    expect(renders).toBe(2);
+    expect(renderer.toJSON()).toBe('y');
+  });
+
+  it('生命周期：子先于父挂载，getSnapshotBeforeUpdate 的返回值传给 componentDidUpdate，卸载时 componentWillUnmount', () => {
+    const log: string[] = [];
+    class Child extends Component<{ value: number }> {
+      componentDidMount() { log.push('child mount'); }
+      componentWillUnmount() { log.push('child unmount'); }
+      render() { return h('span', null, String(this.props.value)); }
+    }
+    class Parent extends Component<{ value: number }> {
+      componentDidMount() { log.push('parent mount'); }
+      getSnapshotBeforeUpdate(prevProps: { value: number }) { return `was ${prevProps.value}`; }
+      componentDidUpdate(prevProps: { value: number }, _prevState: any, snapshot: string) {
+        log.push(`parent update ${prevProps.value}->${this.props.value} (${snapshot})`);
+      }
+      render() { return h('div', null, this.props.value < 3 ? h(Child, { value: this.props.value }) : null); }
+    }
+    const renderer = createTestRenderer(h(Parent, { value: 1 }));
+    expect(log).toEqual(['child mount', 'parent mount']);
+
+    log.length = 0;
+    renderer.update(h(Parent, { value: 2 }));
+    expect(log).toEqual(['parent update 1->2 (was 1)']);
+
+    log.length = 0;
+    act(() => renderer.update(h(Parent, { value: 3 })));
+    expect(log).toEqual(['child unmount', 'parent update 2->3 (was 2)']);
+  });
+});
@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+// events.test.ts
+// 委托事件：capture / bubble 顺序、stopPropagation、portal 沿 fiber 树冒泡、不冒泡事件的 capture 路径、onFocus 冒泡
+import { describe, it, expect, afterEach } from 'vitest';
+import { createElement as h, createRoot, createPortal, flushSync } from '../index';
+import { debugConfig } from '../fiber';
+
+debugConfig.enable = false; // 关闭 reconciler 调试日志
+
+const cleanups: Array<() => void> = [];
+afterEach(() => { cleanups.splice(0).forEach(cleanup => cleanup()); });
+
+function mount(vnode: any) {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  flushSync(() => root.render(vnode));
+  cleanups.push(() => { flushSync(() => root.unmount()); container.remove(); });
+  return { container, root };
+}
+
+describe('委托事件', () => {
+  it('先 capture（从外到内）再 bubble（从内到外）', () => {
+    const log: string[] = [];
+    const handlers = (name: string) => ({
+      onClickCapture: (e: any) => log.push(`${name} capture ${e.eventPhase}`),
+      onClick: (e: any) => log.push(`${name} bubble ${e.eventPhase}`)
+    });
+    const { container } = mount(h('section', handlers('outer'), h('button', handlers('inner'), 'go')));
+    container.querySelector('button')!.click();
+    expect(log).toEqual(['outer capture capture', 'inner capture capture', 'inner bubble bubble', 'outer bubble bubble']);
+  });
+
+  it('stopPropagation 终止后续 handler；portal 内的事件沿组件树冒泡', () => {
+    const log: string[] = [];
+    const portalTarget = document.createElement('div');
+    document.body.appendChild(portalTarget);
+    cleanups.push(() => portalTarget.remove());
+    const { container } = mount(h('div', { onClick: () => log.push('app') },
+      h('p', { onClick: (e: any) => { log.push('stopper'); e.stopPropagation(); } }, h('b', null, 'stop')),
+      createPortal(h('i', { onClick: () => log.push('portal') }, 'portal'), portalTarget)
+    ));
+    container.querySelector('b')!.click();
+    expect(log).toEqual(['stopper']);
+
+    log.length = 0;
+    portalTarget.querySelector('i')!.click();
+    expect(log).toEqual(['portal', 'app']);
+  });
+
+  it('派发时读取最新提交的 handler', () => {
+    const log: string[] = [];
+    const { container, root } = mount(h('button', { onClick: () => log.push('v1') }, 'x'));
+    flushSync(() => root.render(h('button', { onClick: () => log.push('v2') }, 'x')));
+    container.querySelector('button')!.click();
+    expect(log).toEqual(['v2']);
+  });
+
+  it('不冒泡的事件：祖先的 capture handler 触发，bubble 只到 target', () => {
+    const log: string[] = [];
+    const { container } = mount(h('div', { onScrollCapture: () => log.push('outer capture'), onScroll: () => log.push('outer bubble') },
+      h('ul', { onScrollCapture: () => log.push('list capture'), onScroll: () => log.push('list bubble') })
+    ));
+    container.querySelector('ul')!.dispatchEvent(new Event('scroll', { bubbles: false }));
+    expect(log).toEqual(['outer capture', 'list capture', 'list bubble']);
+  });
+
+  it('onFocus / onBlur 由 focusin / focusout 派发，会冒泡到祖先', () => {
+    const log: string[] = [];
+    const { container } = mount(h('form', { onFocus: (e: any) => log.push(`form ${e.type}`), onBlur: (e: any) => log.push(`form ${e.type}`) },
+      h('input', { onFocus: (e: any) => log.push(`input ${e.type}`) })
+    ));
+    const input = container.querySelector('input')!;
+    input.focus();
+    input.blur();
+    expect(log).toEqual(['input focus', 'form focus', 'form blur']);
+  });
+});
@@ -0,0 +1,51 @@
+// lanes.test.ts
+// 逐 fiber lanes / childLanes：setState 只重新 render 所属组件，未受影响的子树整体 bailout
+import { describe, it, expect } from 'vitest';
+import { createElement as h, createTestRenderer, act, useState } from '../index';
+import { debugConfig } from '../fiber';
+
+debugConfig.enable = false; // 关闭 reconciler 调试日志
+
+describe('逐 fiber lanes', () => {
+  it('深层组件的更新不重新 render 祖先与兄弟子树', () => {
+    const renders: Record<string, number> = {};
+    const hit = (name: string) => { renders[name] = (renders[name] || 0) + 1; };
+    let setCount!: (update: (n: number) => number) => void;
+    function Counter() {
+      const [count, set] = useState(0);
+      setCount = set;
+      hit('Counter');
+      return h('b', null, String(count));
+    }
+    function Leaf() { hit('Leaf'); return h('i', null, 'leaf'); }
+    function Panel() { hit('Panel'); return h('section', null, h(Counter, null), h(Leaf, null)); }
+    function Sidebar() { hit('Sidebar'); return h('aside', null, h(Leaf, null)); }
+    function App() { hit('App'); return h('main', null, h(Panel, null), h(Sidebar, null)); }
+
+    const renderer = createTestRenderer(h(App, null));
+    expect(renders).toEqual({ App: 1, Panel: 1, Counter: 1, Leaf: 2, Sidebar: 1 });
+
+    for (const name in renders) delete renders[name];
+    act(() => setCount(n => n + 1));
+    expect(renders).toEqual({ Counter: 1 });
+    expect(renderer.root.findByType('b').children).toEqual(['1']);
+  });
+
+  it('更新组件的子组件随之 render，props 未变的兄弟仍 bailout', () => {
+    const renders: string[] = [];
+    let setLabel!: (label: string) => void;
+    function Child(props: { label: string }) { renders.push(`Child:${props.label}`); return props.label; }
+    function Static() { renders.push('Static'); return 'static'; }
+    const staticElement = h(Static, null); // 引用不变的元素：props 未变
+    function Parent() {
+      const [label, set] = useState('a');
+      setLabel = set;
+      renders.push('Parent');
+      return h('div', null, h(Child, { label }), staticElement);
+    }
+    createTestRenderer(h(Parent, null));
+    renders.length = 0;
+    act(() => setLabel('b'));
+    expect(renders).toEqual(['Parent', 'Child:b']);
+  });
+});
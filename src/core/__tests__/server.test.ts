@@ -0,0 +1,134 @@
+// server.test.ts
+// renderToReadableStream：边界按完成顺序补发、嵌套边界、allReady，以及挂起数据失败 / shell 阶段出错时的 fallback
+import { describe, it, expect, vi } from 'vitest';
+import { createElement as h, renderToReadableStream, Suspense, type RenderStream } from '../index';
+
+// 手动控制的数据源：未就绪时抛出 thenable（Suspense 协议），失败后抛出错误
+function createResource<T>() {
+  let status: 'pending' | 'done' | 'error' = 'pending';
+  let result: any;
+  let settle!: (ok: boolean, value: any) => void;
+  const thenable = new Promise<void>(resolve => {
+    settle = (ok, value) => { status = ok ? 'done' : 'error'; result = value; resolve(); };
+  });
+  return {
+    read(): T {
+      if (status === 'pending') throw thenable;
+      if (status === 'error') throw result;
+      return result;
+    },
+    resolve: (value: T) => settle(true, value),
+    reject: (error: any) => settle(false, error)
+  };
+}
+
+// 后台持续读取，chunks 按到达顺序记录
+function collect(stream: RenderStream) {
+  const chunks: string[] = [];
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  const done = (async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      chunks.push(decoder.decode(value));
+    }
+  })();
+  return { chunks, done };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function Text(props: { resource: { read(): string } }) {
+  return h('span', null, props.resource.read());
+}
+
+describe('renderToReadableStream', () => {
+  it('先输出带 fallback 的 shell，边界按完成顺序补发 $RC', async () => {
+    const first = createResource<string>(), second = createResource<string>();
+    const stream = renderToReadableStream(h('div', null,
+      h(Suspense, { fallback: 'loading 1' }, h(Text, { resource: first })),
+      h(Suspense, { fallback: 'loading 2' }, h(Text, { resource: second }))
+    ));
+    const { chunks, done } = collect(stream);
+    await tick();
+    expect(chunks).toEqual([
+      '<div><!--$?--><template id="B:0"></template>loading 1<!--/$--><!--$?--><template id="B:1"></template>loading 2<!--/$--></div>'
+    ]);
+
+    second.resolve('two');
+    await tick();
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1]).toMatch(/^<script>function \$RC\(/);
+    expect(chunks[1]).toContain('<div hidden id="S:1"><span>two</span></div><script>$RC("B:1","S:1")</script>');
+
+    first.resolve('one');
+    await stream.allReady;
+    await done;
+    // $RC 函数只发送一次
+    expect(chunks[2]).toBe('<div hidden id="S:0"><span>one</span></div><script>$RC("B:0","S:0")</script>');
+    expect(chunks).toHaveLength(3);
+  });
+
+  it('嵌套边界：外层内容就绪后，仍挂起的内层边界输出新的占位并单独补发', async () => {
+    const outer = createResource<string>(), inner = createResource<string>();
+    const stream = renderToReadableStream(
+      h(Suspense, { fallback: 'outer fb' },
+        h(Text, { resource: outer }),
+        h(Suspense, { fallback: 'inner fb' }, h(Text, { resource: inner }))
+      )
+    );
+    const { chunks, done } = collect(stream);
+    await tick();
+    expect(chunks).toEqual(['<!--$?--><template id="B:0"></template>outer fb<!--/$-->']);
+
+    outer.resolve('outer');
+    await tick();
+    expect(chunks[1]).toContain('<div hidden id="S:0"><span>outer</span><!--$?--><template id="B:1"></template>inner fb<!--/$--></div>');
+
+    let ready = false;
+    stream.allReady.then(() => { ready = true; });
+    await tick();
+    expect(ready).toBe(false);
+
+    inner.resolve('inner');
+    await stream.allReady;
+    await done;
+    expect(chunks[2]).toBe('<div hidden id="S:1"><span>inner</span></div><script>$RC("B:1","S:1")</script>');
+  });
+
+  it('挂起的数据失败：上报 onError、保留 fallback，流正常结束', async () => {
+    const resource = createResource<string>();
+    const onError = vi.fn();
+    const stream = renderToReadableStream(h('main', null, h(Suspense, { fallback: 'fb' }, h(Text, { resource }))), { onError });
+    const { chunks, done } = collect(stream);
+    await tick();
+    resource.reject(new Error('fetch failed'));
+    await stream.allReady;
+    await done;
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toBe('fetch failed');
+    expect(chunks.join('')).toBe('<main><!--$?--><template id="B:0"></template>fb<!--/$--></main>');
+  });
+
+  it('shell 阶段 Suspense 内出错：输出 fallback 交给客户端渲染，而不是使整个流出错', async () => {
+    function Bad(): any { throw new Error('boom'); }
+    const onError = vi.fn();
+    const stream = renderToReadableStream(h('div', null, h(Suspense, { fallback: 'fb' }, h(Bad, null))), { onError });
+    const { chunks, done } = collect(stream);
+    await stream.allReady;
+    await done;
+    expect(chunks.join('')).toBe('<div><!--$?--><template id="B:0"></template>fb<!--/$--></div>');
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toBe('boom');
+  });
+
+  it('shell 本身出错：读取与 allReady 均以该错误 reject', async () => {
+    function Bad(): any { throw new Error('shell boom'); }
+    const onError = vi.fn();
+    const stream = renderToReadableStream(h('div', null, h(Bad, null)), { onError });
+    await expect(stream.getReader().read()).rejects.toThrow('shell boom');
+    await expect(stream.allReady).rejects.toThrow('shell boom');
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,75 @@
+// syncExternalStore.test.ts
+// useSyncExternalStore：store 变化时重新 render；并发 render 中 store 被改写时提交前同步重新 render，不提交撕裂的结果
+import { describe, it, expect } from 'vitest';
+import { createElement as h, createTestRenderer, act, startTransition, useState, useLayoutEffect, useSyncExternalStore } from '../index';
+import { debugConfig } from '../fiber';
+
+debugConfig.enable = false; // 关闭 reconciler 调试日志
+
+function createStore(initial: number) {
+  let value = initial;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => value,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    set(next: number) {
+      value = next;
+      listeners.forEach(listener => listener());
+    },
+    // 不通知订阅者的改写：模拟时间片之间、订阅回调到达之前 store 已经变化
+    mutateSilently(next: number) { value = next; },
+    listenerCount: () => listeners.size
+  };
+}
+
+describe('useSyncExternalStore', () => {
+  it('读取快照并在 store 变化时重新 render；卸载后取消订阅', () => {
+    const store = createStore(1);
+    function Reader() { return String(useSyncExternalStore(store.subscribe, store.get)); }
+    let renderer!: ReturnType<typeof createTestRenderer>;
+    act(() => { renderer = createTestRenderer(h(Reader, null)); });
+    expect(renderer.toJSON()).toBe('1');
+    expect(store.listenerCount()).toBe(1);
+
+    act(() => store.set(2));
+    expect(renderer.toJSON()).toBe('2');
+
+    act(() => renderer.unmount());
+    expect(store.listenerCount()).toBe(0);
+  });
+
+  it('并发 render 中 store 被改写：提交前检测到并同步重新 render，各组件读到同一版本', () => {
+    const store = createStore(1);
+    let mutated = false;
+    const committed: number[] = [];
+    function Reader(props: { index: number; version: number }) {
+      const value = useSyncExternalStore(store.subscribe, store.get);
+      // transition render 读取第一个 Reader 之后，store 在其余组件读取之前变化
+      if (props.version === 1 && props.index === 0 && !mutated) {
+        mutated = true;
+        store.mutateSilently(2);
+      }
+      useLayoutEffect(() => { committed[props.index] = value; });
+      return h('li', null, String(value));
+    }
+    const commits: string[] = [];
+    let setVersion!: (version: number) => void;
+    function List() {
+      const [version, set] = useState(0);
+      setVersion = set;
+      // 子组件的 layout effect 先于父组件执行：此时 committed 为本次提交的各 Reader 读数
+      useLayoutEffect(() => { commits.push(committed.join(',')); });
+      return h('ul', null, [0, 1, 2].map(index => h(Reader, { key: index, index, version })));
+    }
+    const renderer = createTestRenderer(h(List, null));
+
+    act(() => startTransition(() => setVersion(1)));
+    expect(mutated).toBe(true);
+    // 没有任何一次提交混合了两个版本
+    expect(commits).toEqual(['1,1,1', '2,2,2']);
+    expect(renderer.root.findAllByType('li').map(li => li.children[0])).toEqual(['2', '2', '2']);
+  });
+});
@@ -0,0 +1,75 @@
+// testRenderer.test.ts
+// createTestRenderer / act 的基本行为：keyed 重排、Suspense 重试、错误边界 fallback、act 冲刷 passive effect
+import { describe, it, expect, vi } from 'vitest';
+import { createElement as h, createTestRenderer, act, useState, useEffect, Suspense, lazy, ErrorBoundary } from '../index';
+import { debugConfig } from '../fiber';
+
+debugConfig.enable = false; // 关闭 reconciler 调试日志
+
+describe('createTestRenderer', () => {
+  it('keyed 重排时移动已有节点并保留各自的 state', () => {
+    let mounts = 0;
+    function Item(props: { label: string }) {
+      const [mountId] = useState(() => ++mounts);
+      return h('li', null, `${props.label}#${mountId}`);
+    }
+    const list = (labels: string[]) => h('ul', null, labels.map(label => h(Item, { key: label, label })));
+    const renderer = createTestRenderer(list(['a', 'b', 'c']));
+    expect(renderer.toJSON()).toEqual({ type: 'ul', props: {}, children: [
+      { type: 'li', props: {}, children: ['a#1'] },
+      { type: 'li', props: {}, children: ['b#2'] },
+      { type: 'li', props: {}, children: ['c#3'] }
+    ] });
+
+    renderer.update(list(['c', 'a', 'b']));
+    expect(renderer.root.findAllByType('li').map(li => li.children[0])).toEqual(['c#3', 'a#1', 'b#2']);
+    expect(mounts).toBe(3);
+  });
+
+  it('Suspense 先提交 fallback，lazy 加载完成后在 act 中重试并显示内容', async () => {
+    let resolveModule!: (mod: { default: (props: { name: string }) => any }) => void;
+    const loading = new Promise<{ default: (props: { name: string }) => any }>(resolve => { resolveModule = resolve; });
+    const Greeting = lazy(() => loading);
+    const renderer = createTestRenderer(h(Suspense, { fallback: h('span', null, 'loading') }, h(Greeting, { name: 'mini' })));
+    expect(renderer.toJSON()).toEqual({ type: 'span', props: {}, children: ['loading'] });
+
+    await act(async () => {
+      resolveModule({ default: props => h('p', null, `hello ${props.name}`) });
+      await loading;
+    });
+    expect(renderer.toJSON()).toEqual({ type: 'p', props: {}, children: ['hello mini'] });
+  });
+
+  it('子组件 render 抛错时 ErrorBoundary 渲染 fallback 并回调 onError', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    function Broken(): any { throw new Error('boom'); }
+    const onError = vi.fn();
+    const renderer = createTestRenderer(h('div', null,
+      h(ErrorBoundary, { fallback: (error: any) => h('p', null, `failed: ${error.message}`), onError }, h(Broken, null)),
+      h('span', null, 'sibling')
+    ));
+    expect(renderer.toJSON()).toEqual({ type: 'div', props: {}, children: [
+      { type: 'p', props: {}, children: ['failed: boom'] },
+      { type: 'span', props: {}, children: ['sibling'] }
+    ] });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toBe('boom');
+    consoleError.mockRestore();
+  });
+
+  it('act 结束前冲刷 passive effect 及其触发的更新', () => {
+    const log: string[] = [];
+    function Loader() {
+      const [status, setStatus] = useState('idle');
+      useEffect(() => {
+        log.push(`effect:${status}`);
+        if (status === 'idle') setStatus('ready');
+      }, [status]);
+      return h('b', null, status);
+    }
+    let renderer!: ReturnType<typeof createTestRenderer>;
+    act(() => { renderer = createTestRenderer(h(Loader, null)); });
+    expect(log).toEqual(['effect:idle', 'effect:ready']);
+    expect(renderer.toJSON()).toEqual({ type: 'b', props: {}, children: ['ready'] });
+  });
+});
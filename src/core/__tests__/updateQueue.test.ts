@@ -0,0 +1,70 @@
+// updateQueue.test.ts
+// 带 lane 的更新队列：render 中才计算 state；低优更新被跳过时按 React 方式 rebase；useReducer
+import { describe, it, expect } from 'vitest';
+import { createElement as h, createTestRenderer, act, flushSync, startTransition, useState, useReducer } from '../index';
+import { debugConfig } from '../fiber';
+
+debugConfig.enable = false; // 关闭 reconciler 调试日志
+
+describe('更新队列', () => {
+  it('先处理高优更新，随后的低优 render 按原顺序重放全部更新', () => {
+    const rendered: string[] = [];
+    let setText!: (update: (s: string) => string) => void;
+    function Text() {
+      const [text, set] = useState('A');
+      setText = set;
+      rendered.push(text);
+      return text;
+    }
+    const renderer = createTestRenderer(h(Text, null));
+    rendered.length = 0;
+    act(() => {
+      startTransition(() => setText(s => s + 'B'));
+      flushSync(() => setText(s => s + 'C'));
+    });
+    // 同步 render 跳过 transition 更新，只应用 C；transition render 以跳过处为基础重放 B、C
+    expect(rendered).toEqual(['AC', 'ABC']);
+    expect(renderer.toJSON()).toBe('ABC');
+  });
+
+  it('函数式更新排队到 render 中基于前一结果执行；只有空队列的首个更新提前计算（eager state）', () => {
+    const seen: number[] = [];
+    let setCount!: (update: (n: number) => number) => void;
+    function Counter() {
+      const [count, set] = useState(0);
+      setCount = set;
+      return String(count);
+    }
+    const renderer = createTestRenderer(h(Counter, null));
+    act(() => {
+      setCount(n => { seen.push(n); return n + 1; });
+      setCount(n => { seen.push(n); return n + 1; });
+      // 提前计算的结果只用于判断能否跳过调度，已提交的 state 与输出不变
+      expect(seen).toEqual([0]);
+      expect(renderer.toJSON()).toBe('0');
+    });
+    expect(seen).toEqual([0, 1]);
+    expect(renderer.toJSON()).toBe('2');
+  });
+
+  it('useReducer 在 render 中按顺序应用 action', () => {
+    type Action = { type: 'add'; amount: number } | { type: 'reset' };
+    let dispatch!: (action: Action) => void;
+    let renders = 0;
+    function Total() {
+      const [total, send] = useReducer((state: number, action: Action) => action.type === 'add' ? state + action.amount : 0, 10);
+      dispatch = send;
+      renders++;
+      return String(total);
+    }
+    const renderer = createTestRenderer(h(Total, null));
+    renders = 0;
+    act(() => {
+      dispatch({ type: 'add', amount: 5 });
+      dispatch({ type: 'reset' });
+      dispatch({ type: 'add', amount: 2 });
+    });
+    expect(renderer.toJSON()).toBe('2');
+    expect(renders).toBe(1);
+  });
+});
@@ -0,0 +1,137 @@
+// component.ts
+// 类组件：Component / PureComponent（Fiber 中对应 ClassComponent 标记，实例挂在 fiber.stateNode 上，current / workInProgress 共享）
+// - setState(partial | (state, props) => partial, callback?)：更新带 lane 追加到队列并调度所属 root；
+//   与 useState 相同地在 render 中按 renderLanes 处理（低优更新跳过并 rebase），结果与旧 state 浅合并
+// - forceUpdate(callback?)：本次 render 跳过 shouldComponentUpdate
+// - shouldComponentUpdate(nextProps, nextState) 返回 false 时跳过 render（this.props / this.state 仍更新为新值）；
+//   PureComponent 默认浅比较 props 与 state
+// - 生命周期由 fiber.ts 在 commit 阶段调用：
+//   getSnapshotBeforeUpdate(prevProps, prevState)：mutation 之前（DOM 仍为旧内容），返回值传给 componentDidUpdate
+//   componentDidMount / componentDidUpdate(prevProps, prevState, snapshot) / setState 回调：与 layout effect 同一阶段，子组件先于父组件
+//   componentWillUnmount：删除时与 effect cleanup 一同执行
+// - 未实现：getDerivedStateFromProps / getDerivedStateFromError / componentDidCatch（错误边界使用 ErrorBoundary）/ contextType
+import { scheduleRootUpdate, getRenderLanes, markSkippedUpdateLanes, requestUpdateLane, type FiberNode } from './fiber';
+
+// ======================== 更新队列 ========================
+interface ClassUpdate {
+  lane: number;                   // 0 (NoLane) 表示 rebase 后必须处理
+  tag: 'update' | 'force';
+  payload: any;                   // partial state 或 (state, props) => partial
+  callback: (() => void) | null;
+}
+
+export interface ClassUpdateQueue {
+  baseState: any;                 // 第一个被跳过更新之前的 state（rebase 起点）
+  baseQueue: ClassUpdate[] | null; // 被跳过的更新及其之后的全部更新
+  shared: { pending: ClassUpdate[] }; // setState 追加、尚未被 render 接收的更新（current / WIP 共享）
+  callbacks: Array<() => void> | null; // 本次 render 处理过的 setState / forceUpdate 回调（layout 阶段执行）
+}
+
+// 实例 -> 所属 fiber（setState 据此调度）；卸载时移除，之后的 setState 不再生效
+const instanceFibers = new WeakMap<object, FiberNode>();
+
+// ======================== Component / PureComponent ========================
+export class Component<P = any, S = any> {
+  props: Readonly<P>;
+  state!: Readonly<S>;
+
+  constructor(props: P) {
+    this.props = props;
+  }
+
+  setState(partial: Partial<S> | ((state: Readonly<S>, props: Readonly<P>) => Partial<S> | null) | null, callback?: () => void) {
+    enqueueClassUpdate(this, 'update', partial, callback);
+  }
+
+  forceUpdate(callback?: () => void) {
+    enqueueClassUpdate(this, 'force', null, callback);
+  }
+
+  render(): any {
+    return null;
+  }
+
+  shouldComponentUpdate?(nextProps: Readonly<P>, nextState: Readonly<S>): boolean;
+  getSnapshotBeforeUpdate?(prevProps: Readonly<P>, prevState: Readonly<S>): any;
+  componentDidMount?(): void;
+  componentDidUpdate?(prevProps: Readonly<P>, prevState: Readonly<S>, snapshot?: any): void;
+  componentWillUnmount?(): void;
+}
+(Component.prototype as any).isReactComponent = true;
+
+export class PureComponent<P = any, S = any> extends Component<P, S> {}
+(PureComponent.prototype as any).isPureReactComponent = true;
+
+export function isClassComponent(type: any): boolean {
+  return typeof type === 'function' && !!type.prototype?.isReactComponent;
+}
+
+function enqueueClassUpdate(instance: Component, tag: ClassUpdate['tag'], payload: any, callback?: () => void) {
+  const fiber = instanceFibers.get(instance);
+  if (!fiber) {
+    // 构造函数中（尚未挂载）或已卸载：React 同样忽略
+    console.warn(`[component] ${instance.constructor.name}: 未挂载的组件调用 ${tag === 'force' ? 'forceUpdate' : 'setState'} 无效（构造函数中请直接给 this.state 赋值）`);
+    return;
+  }
+  const lane = requestUpdateLane();
+  (fiber.updateQueue as ClassUpdateQueue).shared.pending.push({ lane, tag, payload, callback: callback || null });
+  scheduleRootUpdate(fiber, lane);
+}
+
+// ======================== 供 fiber.ts 调用 ========================
+// 首次 render：创建实例与更新队列
+export function constructClassInstance(fiber: FiberNode, props: any): Component {
+  const instance: Component = new fiber.type(props);
+  instance.props = props;
+  if (instance.state === undefined) instance.state = null as any;
+  fiber.stateNode = instance;
+  fiber.memoizedState = instance.state;
+  fiber.updateQueue = { baseState: instance.state, baseQueue: null, shared: { pending: [] }, callbacks: null } as ClassUpdateQueue;
+  instanceFibers.set(instance, fiber);
+  return instance;
+}
+
+export function detachClassInstance(instance: Component) {
+  instanceFibers.delete(instance);
+}
+
+// render 中处理更新队列：结果写入 fiber.memoizedState；返回是否包含 forceUpdate
+// 与 hooks 的 updateReducer 一致：pending 并入 baseQueue 时同步写回已提交队列，本次 render 被丢弃也不会丢失更新
+export function processClassUpdateQueue(fiber: FiberNode, props: any, instance: Component): boolean {
+  const committed = fiber.alternate?.updateQueue as ClassUpdateQueue | undefined;
+  const queue: ClassUpdateQueue = { ...(fiber.updateQueue as ClassUpdateQueue), callbacks: null };
+  fiber.updateQueue = queue;
+  if (queue.shared.pending.length) {
+    const merged = (queue.baseQueue || []).concat(queue.shared.pending);
+    queue.shared.pending = [];
+    queue.baseQueue = merged;
+    if (committed && committed.shared === queue.shared) committed.baseQueue = merged;
+  }
+  if (!queue.baseQueue) return false;
+  const renderLanes = getRenderLanes();
+  let hasForceUpdate = false;
+  let newState = queue.baseState;
+  let newBaseState: any = null;
+  const newBaseQueue: ClassUpdate[] = [];
+  for (const update of queue.baseQueue) {
+    if ((renderLanes & update.lane) !== update.lane) {
+      if (!newBaseQueue.length) newBaseState = newState;
+      newBaseQueue.push({ ...update });
+      markSkippedUpdateLanes(update.lane);
+      continue;
+    }
+    // 已处理的更新在 rebase 时重放，但回调只在本次提交执行一次
+    if (newBaseQueue.length) newBaseQueue.push({ ...update, lane: 0, callback: null });
+    if (update.tag === 'force') {
+      hasForceUpdate = true;
+    } else {
+      const partial = typeof update.payload === 'function' ? update.payload.call(instance, newState, props) : update.payload;
+      if (partial != null) newState = { ...newState, ...partial };
+    }
+    if (update.callback) (queue.callbacks || (queue.callbacks = [])).push(update.callback);
+  }
+  queue.baseState = newBaseQueue.length ? newBaseState : newState;
+  queue.baseQueue = newBaseQueue.length ? newBaseQueue : null;
+  fiber.memoizedState = newState;
+  return hasForceUpdate;
+}
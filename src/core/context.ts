@@ -0,0 +1,35 @@
+// context.ts
+// Context API：createContext(default) 返回 { Provider, _currentValue }
+// - Provider 在 Fiber 中对应 ContextProvider 标记（beginWork 压栈 value，completeWork 出栈恢复）
+// - useContext（hooks.ts）读取当前栈顶值，并记录到 fiber.dependencies，供 bailout 判定是否需要重新渲染
+// - 不在任何 Provider 下时读取 createContext 传入的默认值
+export const ContextProviderSymbol = Symbol('ContextProvider');
+
+export interface ProviderProps<T> { value: T; children?: any; }
+
+// Provider 本身是函数（便于 JSX 类型检查），Fiber 通过 $$typeof 识别为 ContextProvider 而不会直接调用
+export interface ContextProvider<T> {
+  (props: ProviderProps<T>): any;
+  $$typeof: symbol;
+  _context: Context<T>;
+}
+
+export interface Context<T> {
+  Provider: ContextProvider<T>;
+  _currentValue: T;      // 当前渲染位置可见的值（Provider 压栈时改写）
+  _defaultValue: T;      // 无 Provider 时的默认值
+  displayName?: string;
+}
+
+export function createContext<T>(defaultValue: T): Context<T> {
+  const context = { _currentValue: defaultValue, _defaultValue: defaultValue } as Context<T>;
+  const Provider = ((props: ProviderProps<T>) => props.children) as ContextProvider<T>;
+  Provider.$$typeof = ContextProviderSymbol;
+  Provider._context = context;
+  context.Provider = Provider;
+  return context;
+}
+
+export function isContextProvider(type: any): type is ContextProvider<any> {
+  return typeof type === 'function' && type.$$typeof === ContextProviderSymbol;
+}
@@ -0,0 +1,214 @@
+// devtools.ts
+// DevTools 桥：全局 hook 对象（globalThis.__REACT_MINI_DEVTOOLS_GLOBAL_HOOK__），reconciler 每次 commitRoot 后通知它
+// - installDevToolsHook()：安装（幂等）；未安装时 commitRoot 不做任何额外工作
+// - 每次提交生成 fiber 树快照：tag、类型名、key、props、解码后的 hooks（hooks.ts 的 inspectHooks）、是否 memo bailout，以及本次变化的宿主节点
+// - subscribe(listener) 接收提交；getLatestCommits() 读取各 root 最近一次提交；overrideHookState 改写 useState
+// - 快照中的值经过序列化（函数 / 节点 / 过深对象转为描述字符串），可直接 postMessage 给页面外的面板
+// - ignoreContainer(container)：面板自身的 root 不上报（否则面板更新 -> 提交 -> 通知 -> 面板更新 无限循环）
+import { FiberTag, Flags, type FiberNode, type FiberRoot } from './fiber';
+import { inspectHooks, overrideHookState, type InspectedHook } from './hooks';
+
+export const DEVTOOLS_GLOBAL_HOOK_KEY = '__REACT_MINI_DEVTOOLS_GLOBAL_HOOK__';
+
+export interface DevToolsFiberSnapshot {
+  id: number;                     // 同一 fiber（current / alternate 两份）在各次提交中保持不变
+  tag: string;                    // FiberTag 名称
+  name: string;                   // 组件名 / 标签名
+  key: any;
+  props: Record<string, any>;     // 不含 children
+  hooks: InspectedHook[];         // 函数组件的 hooks（值已序列化）
+  state: any;                     // 类组件 state
+  memoBailout: boolean;           // 本次提交中 memo 组件因 props 比较相等而跳过 render（Flags.MemoBailout）
+  children: DevToolsFiberSnapshot[];
+}
+
+export interface DevToolsCommit {
+  rootId: number;
+  container: any;
+  timestamp: number;
+  tree: DevToolsFiberSnapshot;    // HostRoot 为根
+  changedNodes: any[];            // 本次插入 / 更新的宿主节点（DOM 中为 Element，文本变化取其父元素）
+}
+
+export interface DevToolsHook {
+  subscribe(listener: (commit: DevToolsCommit) => void): () => void;
+  getLatestCommits(): DevToolsCommit[];
+  overrideHookState(fiberId: number, hookIndex: number, value: any): boolean;
+  ignoreContainer(container: any): void;
+  onCommitRoot(root: FiberRoot, changedNodes: any[]): void; // reconciler 调用
+  isIgnored(root: FiberRoot): boolean;
+}
+
+// tag -> 名称（首次使用时建立：与 fiber.ts 循环引用，模块求值时 FiberTag 尚未初始化）
+let tagNames: Record<number, string> | null = null;
+function getTagName(tag: number): string {
+  if (!tagNames) {
+    tagNames = {};
+    for (const name in FiberTag) tagNames[(FiberTag as any)[name]] = name;
+  }
+  return tagNames[tag];
+}
+
+// ======================== fiber id ========================
+// current 与 alternate 共用一个 id
+const fiberIds = new WeakMap<FiberNode, number>();
+let nextFiberId = 1;
+function getFiberId(fiber: FiberNode): number {
+  let id = fiberIds.get(fiber) ?? (fiber.alternate ? fiberIds.get(fiber.alternate) : undefined);
+  if (id === undefined) id = nextFiberId++;
+  fiberIds.set(fiber, id);
+  if (fiber.alternate) fiberIds.set(fiber.alternate, id);
+  return id;
+}
+
+// ======================== 全局 hook ========================
+export function getDevToolsHook(): DevToolsHook | null {
+  return (globalThis as any)[DEVTOOLS_GLOBAL_HOOK_KEY] || null;
+}
+
+export function installDevToolsHook(): DevToolsHook {
+  const existing = getDevToolsHook();
+  if (existing) return existing;
+  const listeners = new Set<(commit: DevToolsCommit) => void>();
+  const ignored = new WeakSet<object>();
+  const rootIds = new WeakMap<FiberRoot, number>();
+  const latest = new Map<number, DevToolsCommit>();
+  const fibersById = new Map<number, FiberNode>(); // 最近一次提交中的 fiber（各 root 合并），改写 state 时查找
+  let nextRootId = 1;
+  const hook: DevToolsHook = {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    getLatestCommits: () => Array.from(latest.values()),
+    overrideHookState(fiberId, hookIndex, value) {
+      const fiber = fibersById.get(fiberId);
+      return !!fiber && overrideHookState(fiber.hooks, hookIndex, value);
+    },
+    ignoreContainer(container) { ignored.add(container); },
+    isIgnored: root => ignored.has(root.container),
+    onCommitRoot(root, changedNodes) {
+      let rootId = rootIds.get(root);
+      if (rootId === undefined) rootIds.set(root, rootId = nextRootId++);
+      // 丢弃该 root 上一次提交登记的 fiber（已卸载的 fiber 不再可改写）
+      const previous = latest.get(rootId);
+      if (previous) forEachSnapshot(previous.tree, node => fibersById.delete(node.id));
+      const commit: DevToolsCommit = {
+        rootId,
+        container: root.container,
+        timestamp: root.host.now(),
+        tree: snapshotFiber(root.current, fibersById),
+        changedNodes
+      };
+      if (root.element === null) latest.delete(rootId); // 已卸载
+      else latest.set(rootId, commit);
+      listeners.forEach(listener => {
+        try { listener(commit); } catch (e) { console.error('[devtools] listener error', e); }
+      });
+    }
+  };
+  (globalThis as any)[DEVTOOLS_GLOBAL_HOOK_KEY] = hook;
+  return hook;
+}
+
+// ======================== 供 fiber.ts 调用 ========================
+export function isDevToolsActive(root: FiberRoot): boolean {
+  const hook = getDevToolsHook();
+  return !!hook && !hook.isIgnored(root);
+}
+
+// mutation 之前调用（Placement 标记在 mutation 中清除）：effect list 中插入 / 更新的宿主节点
+export function collectChangedHostNodes(firstEffect: FiberNode | null): any[] {
+  const nodes = new Set<any>();
+  for (let effect = firstEffect; effect; effect = effect.effectNext) {
+    if (effect.flags & Flags.Deletion) continue;
+    if (effect.tag === FiberTag.HostComponent) {
+      if (effect.flags & (Flags.Placement | Flags.Update)) nodes.add(effect.stateNode);
+    } else if (effect.tag === FiberTag.Text) {
+      const parent = findParentHostComponent(effect);
+      if (parent && effect.flags & (Flags.Placement | Flags.Update)) nodes.add(parent.stateNode);
+    } else if (effect.flags & Flags.Placement) {
+      collectTopHostNodes(effect, nodes);
+    }
+  }
+  return Array.from(nodes);
+}
+
+export function notifyCommitRoot(root: FiberRoot, changedNodes: any[]) {
+  getDevToolsHook()?.onCommitRoot(root, changedNodes);
+}
+
+function findParentHostComponent(fiber: FiberNode): FiberNode | null {
+  let parent = fiber.return;
+  while (parent && parent.tag !== FiberTag.HostComponent) {
+    if (parent.tag === FiberTag.HostRoot || parent.tag === FiberTag.HostPortal) return null;
+    parent = parent.return;
+  }
+  return parent;
+}
+
+// 组件整体插入时，其子树最顶层的宿主元素
+function collectTopHostNodes(fiber: FiberNode, out: Set<any>) {
+  for (let child = fiber.child; child; child = child.sibling) {
+    if (child.tag === FiberTag.HostComponent) out.add(child.stateNode);
+    else if (child.tag !== FiberTag.Text && child.tag !== FiberTag.HostPortal) collectTopHostNodes(child, out);
+  }
+}
+
+// ======================== 快照 ========================
+function snapshotFiber(fiber: FiberNode, fibersById: Map<number, FiberNode>): DevToolsFiberSnapshot {
+  const id = getFiberId(fiber);
+  fibersById.set(id, fiber);
+  const isText = fiber.tag === FiberTag.Text;
+  const props: Record<string, any> = {};
+  if (isText) props.text = fiber.memoizedProps;
+  else for (const k in fiber.memoizedProps || {}) if (k !== 'children') props[k] = serializeValue(fiber.memoizedProps[k], 0);
+  const children: DevToolsFiberSnapshot[] = [];
+  for (let child = fiber.child; child; child = child.sibling) children.push(snapshotFiber(child, fibersById));
+  return {
+    id,
+    tag: getTagName(fiber.tag),
+    name: getDisplayName(fiber),
+    key: fiber.key ?? null,
+    props,
+    hooks: fiber.tag === FiberTag.FunctionComponent ? inspectHooks(fiber.hooks).map(h => ({ ...h, value: serializeValue(h.value, 0) })) : [],
+    state: fiber.tag === FiberTag.ClassComponent ? serializeValue(fiber.memoizedState, 0) : null,
+    memoBailout: !!(fiber.flags & Flags.MemoBailout),
+    children
+  };
+}
+
+export function getDisplayName(fiber: FiberNode): string {
+  switch (fiber.tag) {
+    case FiberTag.HostRoot: return 'Root';
+    case FiberTag.Text: return '#text';
+    case FiberTag.Fragment: return 'Fragment';
+    case FiberTag.ContextProvider: return 'Context.Provider';
+    case FiberTag.Offscreen: return 'Offscreen';
+    case FiberTag.HostPortal: return 'Portal';
+    case FiberTag.HostComponent: return String(fiber.type);
+    default: return fiber.type?.displayName || fiber.type?.name || 'Anonymous';
+  }
+}
+
+function forEachSnapshot(node: DevToolsFiberSnapshot, fn: (node: DevToolsFiberSnapshot) => void) {
+  fn(node);
+  node.children.forEach(child => forEachSnapshot(child, fn));
+}
+
+const MAX_SERIALIZE_DEPTH = 4;
+const MAX_SERIALIZE_ITEMS = 50;
+
+// 转为可结构化克隆的值：函数 / 宿主节点 / VNode / 过深对象以描述字符串代替
+function serializeValue(value: any, depth: number): any {
+  if (value === null || value === undefined || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'function') return `ƒ ${value.name || 'anonymous'}()`;
+  if (typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+  if (typeof Node !== 'undefined' && value instanceof Node) return `<${value.nodeName.toLowerCase()}>`;
+  if ('type' in value && 'props' in value && 'children' in value) return `<${typeof value.type === 'string' ? value.type : value.type?.name || 'Fragment'} />`;
+  if (depth >= MAX_SERIALIZE_DEPTH) return Array.isArray(value) ? `Array(${value.length})` : '{…}';
+  if (Array.isArray(value)) return value.slice(0, MAX_SERIALIZE_ITEMS).map(item => serializeValue(item, depth + 1));
+  const out: Record<string, any> = {};
+  for (const k of Object.keys(value).slice(0, MAX_SERIALIZE_ITEMS)) out[k] = serializeValue(value[k], depth + 1);
+  return out;
+}
@@ -0,0 +1,22 @@
+// errorBoundary.ts
+// 错误边界：<ErrorBoundary fallback onError>children</ErrorBoundary>
+// - Fiber 中对应 ErrorBoundary 标记；捕获子树在 render（beginWork）、layout effect、passive effect 中抛出的错误
+// - render 阶段出错：丢弃边界下已构建的半成品 WIP 子树（回滚 effect list / context 栈），改为渲染 fallback
+// - fallback 可为 VNode，或 (error, reset) => VNode；reset() 清除错误并重新渲染 children
+// - 没有任何边界捕获的错误：卸载整个 root，并交给 createRoot(container, { onUncaughtError }) 回调
+export interface ErrorBoundaryProps {
+  fallback?: any | ((error: any, reset: () => void) => any);
+  onError?: (error: any) => void; // 捕获后在提交阶段回调（类似 componentDidCatch）
+  children?: any;
+}
+
+// 边界实例：挂在 fiber.stateNode 上，current / workInProgress 共享，跨渲染保存错误状态
+export interface ErrorBoundaryInstance {
+  hasError: boolean;
+  error: any;
+}
+
+// 标记组件：Fiber 通过引用比较识别为 ErrorBoundary，不会直接调用
+export function ErrorBoundary(props: ErrorBoundaryProps): any {
+  return props.children;
+}
@@ -0,0 +1,188 @@
+// events.ts
+// 委托事件系统（DOM 宿主）：每个根容器 / portal 容器上每种事件只注册一个原生监听器，
+// 不再为每个元素、每次 handler 变化 addEventListener / removeEventListener
+// - 元素上缓存其 fiber 与最新 props（创建 / 更新 / hydration 时写入）；派发时才读取 handler，始终是最新提交的那个
+// - 派发沿 fiber.return 路径而非 DOM 路径：portal 内的事件冒泡到 portal 所在的组件树；嵌套 root 的事件继续冒泡到外层 root
+// - 先 capture（onClickCapture，从外到内）再 bubble（onClick，从内到外）；stopPropagation 同时终止后续 handler 与原生传播
+// - 不冒泡的原生事件（scroll / mouseenter …）在容器上以捕获阶段监听：capture 仍沿完整路径（祖先的 onScrollCapture 会触发），
+//   bubble 只派发给 target 自身
+// - onFocus / onBlur 与 React 相同由 focusin / focusout 派发，因此会冒泡（事件 type 仍为 focus / blur）
+// - 未列入下表的事件（如自定义元素事件）仍由 updateHostComponentProps 直接绑定在元素上
+// - handler 执行期间设置 ambient 更新优先级：离散事件（click / keydown / input …）-> UserBlockingLane，
+//   连续事件（scroll / mousemove / pointermove …）-> HighLane，其余 -> NormalLane；setState 未显式传优先级时沿用
+import { FiberTag, EventPriority, runWithUpdateLane, type FiberNode, type FiberRoot } from './fiber';
+
+export interface SyntheticEvent<E extends Event = Event> {
+  type: string;
+  nativeEvent: E;
+  target: EventTarget | null;
+  currentTarget: EventTarget | null;     // 当前执行 handler 的元素
+  eventPhase: 'capture' | 'bubble';
+  bubbles: boolean;
+  cancelable: boolean;
+  defaultPrevented: boolean;
+  timeStamp: number;
+  preventDefault(): void;
+  stopPropagation(): void;
+  isDefaultPrevented(): boolean;
+  isPropagationStopped(): boolean;
+  persist(): void;                       // 兼容 React 写法：事件对象不复用，无需 persist
+  [key: string]: any;                    // 其余字段复制自原生事件（key / clientX / deltaY …）
+}
+
+// prop 名（去掉 on 前缀）-> 原生事件名；未列出的按小写处理（Click -> click）
+const BUBBLING_EVENTS = [
+  'Click', 'DoubleClick', 'ContextMenu', 'MouseDown', 'MouseUp', 'MouseMove', 'MouseOver', 'MouseOut',
+  'PointerDown', 'PointerUp', 'PointerMove', 'PointerOver', 'PointerOut', 'PointerCancel',
+  'TouchStart', 'TouchMove', 'TouchEnd', 'TouchCancel', 'Wheel',
+  'KeyDown', 'KeyUp', 'KeyPress', 'BeforeInput', 'Input', 'Change', 'Submit', 'Reset',
+  'Focus', 'Blur', 'CompositionStart', 'CompositionUpdate', 'CompositionEnd',
+  'Copy', 'Cut', 'Paste', 'Drag', 'DragStart', 'DragEnd', 'DragEnter', 'DragLeave', 'DragOver', 'Drop'
+];
+const NON_BUBBLING_EVENTS = [
+  'Scroll', 'MouseEnter', 'MouseLeave', 'PointerEnter', 'PointerLeave',
+  'Load', 'Error', 'Play', 'Pause', 'Ended', 'TimeUpdate', 'VolumeChange', 'Toggle'
+];
+const NATIVE_NAME_ALIASES: Record<string, string> = { DoubleClick: 'dblclick' };
+// 以冒泡的 focusin / focusout 派发 onFocus / onBlur
+const FOCUS_EVENT_ALIASES: Record<string, string> = { Focus: 'focusin', Blur: 'focusout' };
+
+// 原生事件名 -> 优先级；未列出的为 Default
+const DISCRETE_EVENTS = [
+  'click', 'dblclick', 'contextmenu', 'mousedown', 'mouseup', 'pointerdown', 'pointerup', 'pointercancel',
+  'touchstart', 'touchend', 'touchcancel', 'keydown', 'keyup', 'keypress', 'beforeinput', 'input', 'change',
+  'submit', 'reset', 'focusin', 'focusout', 'focus', 'blur', 'compositionstart', 'compositionupdate', 'compositionend',
+  'copy', 'cut', 'paste', 'dragstart', 'dragend', 'drop', 'play', 'pause', 'ended', 'volumechange', 'toggle'
+];
+const CONTINUOUS_EVENTS = [
+  'scroll', 'wheel', 'mousemove', 'mouseover', 'mouseout', 'mouseenter', 'mouseleave',
+  'pointermove', 'pointerover', 'pointerout', 'pointerenter', 'pointerleave', 'touchmove',
+  'drag', 'dragenter', 'dragleave', 'dragover'
+];
+
+interface DelegatedEvent {
+  type: string;        // 合成事件的 type（focusin -> focus）
+  bubbles: boolean;
+  bubbleProp: string;  // onClick
+  captureProp: string; // onClickCapture
+}
+
+// 原生事件名 -> 描述；prop 名 -> 原生事件名（updateHostComponentProps 据此跳过委托事件）
+const delegatedEvents = new Map<string, DelegatedEvent>();
+const delegatedProps = new Set<string>();
+for (const [names, bubbles] of [[BUBBLING_EVENTS, true], [NON_BUBBLING_EVENTS, false]] as const) {
+  for (const name of names) {
+    const nativeName = NATIVE_NAME_ALIASES[name] || FOCUS_EVENT_ALIASES[name] || name.toLowerCase();
+    const type = FOCUS_EVENT_ALIASES[name] ? name.toLowerCase() : nativeName;
+    delegatedEvents.set(nativeName, { type, bubbles, bubbleProp: `on${name}`, captureProp: `on${name}Capture` });
+    delegatedProps.add(`on${name}`);
+    delegatedProps.add(`on${name}Capture`);
+  }
+}
+
+const randomKey = Math.random().toString(36).slice(2);
+const internalFiberKey = '__fiber$' + randomKey;
+const internalPropsKey = '__props$' + randomKey;
+const listeningMarker = '__listening$' + randomKey;
+
+// 已被内层容器派发过的原生事件（嵌套容器的外层监听器跳过，避免重复派发）
+const dispatchedEvents = new WeakSet<Event>();
+
+export function getEventPriority(type: string): number {
+  if (DISCRETE_EVENTS.includes(type)) return EventPriority.Discrete;
+  if (CONTINUOUS_EVENTS.includes(type)) return EventPriority.Continuous;
+  return EventPriority.Default;
+}
+
+export function isDelegatedEventProp(key: string) {
+  return delegatedProps.has(key);
+}
+
+// onClickCapture -> { type: 'click', capture: true }（直接绑定到元素的非委托事件使用）
+export function parseEventProp(key: string) {
+  const capture = key.endsWith('Capture');
+  const name = key.slice(2, capture ? -'Capture'.length : undefined);
+  return { type: NATIVE_NAME_ALIASES[name] || name.toLowerCase(), capture };
+}
+
+// 元素 <-> fiber / 最新 props（host 在 createInstance / commitUpdate / hydrateInstance 中调用）
+export function precacheFiberNode(node: Node, fiber: FiberNode, props: any) {
+  (node as any)[internalFiberKey] = fiber;
+  (node as any)[internalPropsKey] = props;
+}
+
+// 根容器 / portal 容器：每种事件注册一次
+export function listenToAllSupportedEvents(container: EventTarget) {
+  if ((container as any)[listeningMarker]) return;
+  (container as any)[listeningMarker] = true;
+  delegatedEvents.forEach((info, type) => {
+    const priority = getEventPriority(type); // 派发期间的 ambient 更新 lane
+    container.addEventListener(type, nativeEvent => runWithUpdateLane(priority, () => dispatchDelegatedEvent(info, nativeEvent)), !info.bubbles);
+  });
+}
+
+function getClosestFiber(node: Node | null): FiberNode | null {
+  while (node) {
+    const fiber = (node as any)[internalFiberKey];
+    if (fiber) return fiber;
+    node = node.parentNode;
+  }
+  return null;
+}
+
+// target 到最外层 root 的 host 元素（由内到外）：沿 fiber.return，遇到 HostRoot 时从其容器继续向外层 root 查找
+function collectHostPath(fiber: FiberNode | null): Element[] {
+  const path: Element[] = [];
+  while (fiber) {
+    if (fiber.tag === FiberTag.HostComponent && fiber.stateNode) path.push(fiber.stateNode);
+    if (fiber.tag === FiberTag.HostRoot) {
+      fiber = getClosestFiber((fiber.stateNode as FiberRoot).container);
+      continue;
+    }
+    fiber = fiber.return;
+  }
+  return path;
+}
+
+function dispatchDelegatedEvent(info: DelegatedEvent, nativeEvent: Event) {
+  if (dispatchedEvents.has(nativeEvent)) return;
+  const targetFiber = getClosestFiber(nativeEvent.target as Node | null);
+  if (!targetFiber) return;
+  dispatchedEvents.add(nativeEvent);
+  // capture 总是沿完整路径；不冒泡的事件 bubble 阶段只到 target 自身
+  const path = collectHostPath(targetFiber);
+  const bubbleLength = info.bubbles ? path.length : Math.min(path.length, 1);
+  const event = createSyntheticEvent(nativeEvent);
+  event.type = info.type;
+  let firstError: unknown = null;
+  let hasError = false;
+  const invoke = (node: Element, prop: string, phase: 'capture' | 'bubble') => {
+    const handler = (node as any)[internalPropsKey]?.[prop];
+    if (typeof handler !== 'function') return;
+    event.currentTarget = node;
+    event.eventPhase = phase;
+    // handler 抛错不影响后续 handler，派发结束后抛出第一个错误
+    try { handler.call(node, event); } catch (e) { if (!hasError) { hasError = true; firstError = e; } }
+  };
+  for (let i = path.length - 1; i >= 0 && !event.isPropagationStopped(); i--) invoke(path[i], info.captureProp, 'capture');
+  for (let i = 0; i < bubbleLength && !event.isPropagationStopped(); i++) invoke(path[i], info.bubbleProp, 'bubble');
+  event.currentTarget = null;
+  if (hasError) throw firstError;
+}
+
+function createSyntheticEvent(nativeEvent: Event): SyntheticEvent {
+  const event: any = {};
+  // 复制原生字段（含原型上的 getter），方法除外
+  for (const key in nativeEvent) {
+    const value = (nativeEvent as any)[key];
+    if (typeof value !== 'function') event[key] = value;
+  }
+  let propagationStopped = false;
+  event.nativeEvent = nativeEvent;
+  event.preventDefault = () => { event.defaultPrevented = true; nativeEvent.preventDefault(); };
+  event.stopPropagation = () => { propagationStopped = true; nativeEvent.stopPropagation(); };
+  event.isDefaultPrevented = () => event.defaultPrevented;
+  event.isPropagationStopped = () => propagationStopped;
+  event.persist = () => {};
+  return event;
+}
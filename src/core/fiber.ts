@@ -10,30 +10,63 @@
 // 5. Effect：区分 layout / passive；在 commit 后分别同步与异步执行；具备 destroy/create 两阶段
 // 6. 调度：
 //    - Lanes 简化优先级（user-blocking / high -> 同步；normal / low / idle -> 并发分片）
-//    - 并发时间分片：requestIdleCallback + shouldYield + 预算 FRAME_BUDGET
+//    - 并发时间分片：host.scheduleIdleCallback（DOM 为 requestIdleCallback）+ shouldYield + 预算 FRAME_BUDGET
 //    - 新高优任务打断低优进行中的渲染，重新从根开始
-// 7. 属性 / 事件更新：commit 阶段统一 diff 与 patch（updateHostComponentProps）
+// 7. 属性更新：commit 阶段经 host.commitUpdate 统一 diff 与 patch；DOM 事件由 events.ts 在容器上委托，沿 fiber.return 派发
 // 8. 删除：支持子树删除 + effect cleanup 顺序策略（parent-first / child-first）
 // 9. 调试：debugConfig 控制 effect / schedule 日志、被动 effect flush 模式（宏/微任务）
+// 10. 多 root：createRoot(container) 各自持有 fiber 树 / lanes / effect list，更新只作用于所属 root
+// 11. Context：ContextProvider 标记 + value 栈；bailout 时检查 fiber.dependencies 记录的 context 值是否变化
+// 12. 错误边界：render 抛错回滚到最近 ErrorBoundary 渲染 fallback；commit / passive 错误同样路由；未捕获则卸载 root
+// 13. Suspense：抛出 thenable 时回滚到最近 Suspense 提交 fallback；主内容保留在隐藏的 Offscreen 下，resolve 后重试
+// 14. Ref：HostComponent 的 ref 在 mutation 之后、layout effect 之前挂载；删除 / ref 变更时先置 null
+// 15. Portal：HostPortal 子树的 host 节点以 portal 容器为父节点插入 / 删除，其余行为沿 fiber 树
+// 16. 更新队列：state hook 持有带 lane 的更新队列；每次 render 只处理最高优先级 lane，跳过的更新提交后重新调度
+// 17. 批处理：同一任务内的更新在微任务中合并为一次 render；flushSync 同步处理（每次提交合并的更新数上报 scheduler）
+// 18. Transition：startTransition 内的更新使用 TransitionLane（并发、可被高优打断）；useDeferredValue 在紧急 render 中返回旧值
+// 19. Hydration：hydrateRoot 首次 render 按顺序认领服务端 DOM（不一致的子树回退客户端渲染并警告）
+// 20. HostConfig：节点操作与调度原语经由 root.host（hostConfig.ts），DOM 只是其中一种宿主（见 reconciler.ts 的 createReconciler）
+// 21. 逐 fiber lanes：更新标记在所属 fiber（lanes）及祖先路径（childLanes）上，render 仍从根开始，
+//     但 props 未变、无待处理 lane 的 fiber 直接 bailout，childLanes 为空的子树整体跳过
+// 22. memo：memo 组件 props 经比较函数判定相等时同样 bailout；标记 MemoBailout 并计入提交统计，与普通 bailout 区分
+//     该标记只在本次提交内有效（DevTools 快照据此显示），提交后即清除，不残留到之后的提交
+// 23. 类组件：ClassComponent 标记；setState 更新队列与 hooks 相同按 lane 处理，shouldComponentUpdate / PureComponent 决定是否 bailout；
+//     getSnapshotBeforeUpdate 在 mutation 前，componentDidMount / DidUpdate / setState 回调与 layout effect 同阶段，componentWillUnmount 随删除 cleanup
+// 24. 外部 store：并发 render 记录 useSyncExternalStore 读取的快照，提交前复查；时间片之间 store 已变化则以同一 lanes 同步重新 render
+// 25. StrictMode：Mode 标记 + 沿子树继承的 fiber.mode；开发模式下函数组件 render 两次（输出不同时警告），新挂载的 effect 执行 create -> destroy -> create
+// 26. DevTools：安装全局 hook（devtools.ts）后，每次 commitRoot 上报 fiber 树快照与本次插入 / 更新的宿主节点
+// 27. Profiler：ProfileMode 子树的 fiber 记录 beginWork + completeWork 自身耗时，完成时向上汇总；提交后在 layout 阶段回调 onRender
 // ---------------------------------------------------------------------
 // 与真实 React 的缺失 / 差异：
-// - 不支持优先级老化 / lane 合并策略 / Suspense / ErrorBoundary / Context / Ref / Fragment / Portal
-// - 没有 Fiber 回退（如 render 中抛错对 alternate 回滚）
-// - 没有 updateQueue / setState 合并，只有最简 scheduleRootUpdate
+// - 不支持优先级老化 / lane 合并策略
 // - Passive effect 不含优先级隔离 / 与 commit root 分离（当前一次 root 提交后统一批处理）
-// - 没有离屏模式、没有 profiler、没有 hydration
+// - Profiler 只有 onRender（无 onCommit / 交互追踪）；hydration 不支持按 Suspense 边界选择性 / 渐进 hydration
 // =====================================================================
 
 // Phase1+2(partial): Fiber 架构骨架 + 改进子节点调和 + Host props Update 提交
 // 后续阶段在此基础上不断增量迭代
 // ---------------------------------------------------------------------
 
-import { prepareToUseHooks, finishHooks } from './hooks';
+import { prepareToUseHooks, finishHooks, checkRenderedHookCount } from './hooks';
+import { isContextProvider, type Context } from './context';
+import { ErrorBoundary, type ErrorBoundaryInstance } from './errorBoundary';
+import { Suspense, isThenable } from './suspense';
+import { createElement, Fragment } from './createElement';
+import { setRef } from './ref';
+import { isMemoComponent } from './memo';
+import { isClassComponent, constructClassInstance, processClassUpdateQueue, detachClassInstance, type Component, type ClassUpdateQueue } from './component';
+import { Portal } from './portal';
+import { StrictMode, findRenderOutputDiff } from './strictMode';
+import { Profiler, type ProfilerProps } from './profiler';
+import { isDevToolsActive, collectChangedHostNodes, notifyCommitRoot } from './devtools';
+import { recordCommitBatch } from './scheduler';
+import { domHostConfig, type HostConfig, type IdleDeadlineLike } from './hostConfig';
 import type { VNode } from './types';
 
 // ======================== 调试配置与日志 ===============================
 export const debugConfig = {
   enable: true,                 // 总开关
+  dev: !import.meta.env?.PROD,  // 开发模式检查（hook 顺序校验等）；生产构建默认关闭
   effect: {
     logLayout: true,            // 打印 layout effect 执行
     logPassive: true,           // 打印 passive effect 执行
@@ -41,7 +74,8 @@ export const debugConfig = {
     cleanupOrder: 'parent-first' as 'parent-first' | 'child-first', // unmount cleanup 顺序
     passiveFlushMode: 'macro' as 'macro' | 'micro',                // passive flush 调度方式
   },
-  schedule: { log: false }      // 调度阶段日志
+  schedule: { log: false },     // 调度阶段日志
+  render: { logMemoBailout: false } // 打印 memo 组件因 props 相等跳过 render
 };
 function debugLog(label:string, info?:any){
   if(!debugConfig.enable) return;
@@ -50,17 +84,19 @@ function debugLog(label:string, info?:any){
 }
 
 // ======================== 核心枚举 / 标记 =============================
-export const FiberTag = { HostRoot:0, HostComponent:1, FunctionComponent:2, Text:3, Fragment:4 } as const;
+export const FiberTag = { HostRoot:0, HostComponent:1, FunctionComponent:2, Text:3, Fragment:4, ContextProvider:5, ErrorBoundary:6, SuspenseComponent:7, Offscreen:8, HostPortal:9, ClassComponent:10, Mode:11, Profiler:12 } as const;
 export type FiberTagType = typeof FiberTag[keyof typeof FiberTag];
-export const Flags = { NoFlags:0, Placement:1<<0, Update:1<<1, Deletion:1<<2 } as const;
+export const Flags = { NoFlags:0, Placement:1<<0, Update:1<<1, Deletion:1<<2, DidCapture:1<<3, Visibility:1<<4, Ref:1<<5, MemoBailout:1<<6, Lifecycle:1<<7, Snapshot:1<<8 } as const;
 export type FlagType = typeof Flags[keyof typeof Flags];
+// 沿 fiber 树向下继承的模式位（Mode 节点为其子树加上对应位）
+export const FiberMode = { NoMode:0, StrictMode:1<<0, ProfileMode:1<<1 } as const;
 
 // ======================== Fiber 节点结构 ===============================
 export interface FiberNode {
   tag: FiberTagType;            // 节点类型
   type: any;                    // 组件函数 / DOM 标签名
   key: any;                     // 用于 keyed diff
-  stateNode: any;               // HostComponent/Text 对应真实 DOM；HostRoot = 容器
+  stateNode: any;               // HostComponent/Text 对应真实 DOM；HostRoot = FiberRoot；HostPortal = portal 容器；ClassComponent = 组件实例
   return: FiberNode | null;     // 父 Fiber
   child: FiberNode | null;      // 第一个子 Fiber
   sibling: FiberNode | null;    // 兄弟 Fiber（单向链表）
@@ -72,21 +108,72 @@ export interface FiberNode {
   effectNext: FiberNode | null; // effect list 单链表
   componentInstance?: any;      // legacy 兼容字段（旧 hooks 容器）
   hooks?: any[];                // hooks.ts 填充的 hooks 数组
+  memoizedState?: any;          // ClassComponent：本次 render 的 state（提交后即 current 的 state）
+  updateQueue?: ClassUpdateQueue; // ClassComponent：setState 更新队列（component.ts）
+  dependencies?: ContextDependency[]; // 本次 render 通过 useContext 读取的 context 及读取时的值
+  unwindSnapshot?: UnwindSnapshot;    // ErrorBoundary / Suspense beginWork 时记录的回滚点
   _hasPassive?: boolean;        // 预留：是否存在 passive effect
+  lanes: number;                // 本 fiber 上待处理的更新 lanes（hook dispatch / 边界重试 / context 变化）
+  childLanes: number;           // 子树中待处理的 lanes：为空时 bailout 可整体跳过子树
+  mode: number;                 // FiberMode 位：创建时继承自父 fiber
+  // 以下仅 ProfileMode 下记录（单位 ms）
+  actualDuration: number;       // 本次 render 中自身及子树的实际耗时（bailout 跳过的子树不计）
+  actualStartTime: number;      // 本次 beginWork 开始时间；-1 表示未计时 / 已 bailout（不更新 selfBaseDuration）
+  selfBaseDuration: number;     // 最近一次 render 自身 beginWork + completeWork 耗时
+  treeBaseDuration: number;     // 子树各 fiber selfBaseDuration 之和
 }
 
-// ======================== Root / 全局状态 =============================
-interface FiberRoot {
-  container: HTMLElement;       // 容器 DOM
+// useContext 记录的依赖：bailout 前比对 memoizedValue 与当前 Provider 值
+export interface ContextDependency { context: Context<any>; memoizedValue: any; }
+
+// ======================== Root / 多 root 状态 =========================
+// 每个 createRoot(container) 对应一个 FiberRoot：各自持有 fiber 树、lanes、effect list 与待执行 effects，
+// 互不干扰；setState 通过 hook 所在 fiber 向上找到所属 HostRoot，只重新渲染该 root。
+export interface FiberRoot {
+  container: any;               // 宿主容器（DOM 中为 HTMLElement）
+  host: HostConfig;             // 宿主接口：所有节点操作与调度原语都经由它（DOM 为 domHostConfig）
   current: FiberNode;           // 已提交树 (current fiber root)
   finishedWork: FiberNode | null; // 预留（当前直接 commit）
   firstEffect: FiberNode | null; // effect list 头
   lastEffect: FiberNode | null;  // effect list 尾
+  element: VNode | null;         // 保存根 vnode（重新调度时复用）；null 表示已卸载
+  pendingLanes: number;          // 等待处理的 lanes（新的更新合并进来）
+  renderLanes: number;           // 正在 render 的 lanes（hooks 据此决定处理哪些更新）；render 结束后清零
+  skippedLanes: number;          // 本次 render 中因优先级不足被跳过的更新 lanes（提交后重新调度）
+  pendingUpdateCounts: Map<number, number>; // lane -> 尚未进入 render 的更新次数（批处理统计）
+  renderUpdateCount: number;     // 本次 render 合并的更新次数（提交时上报 scheduler）
+  renderMemoBailouts: FiberNode[]; // 本次 render 中因 memo 比较相等而跳过的 fiber（带 MemoBailout；提交时上报数量后清除标记）
+  renderStartTime: number;       // 本次 render（从根）开始的时间（Profiler 的 startTime）
+  commitStartTime: number;       // 最近一次提交开始的时间（Profiler 的 commitTime）
+  committedLanes: number;        // 最近一次提交处理的 lanes（Profiler 回调参数）
+  storeConsistencyChecks: Array<{ getSnapshot: () => any; value: any }>; // 并发 render 中读取的外部 store 快照（提交前复查）
+  workInProgress: FiberNode | null; // 正在构建的 fiber（depth-first，可跨时间片保留）
+  wipRoot: FiberNode | null;     // 正在构建的 HostRoot WIP
+  isRenderingConcurrent: boolean; // 是否处于并发分片渲染中
+  pendingLayoutEffects: FiberNode[];  // 同步执行
+  pendingPassiveEffects: FiberNode[]; // 异步批量
+  passiveFlushScheduled: boolean;     // 防抖标记
+  contextStack: ContextStackEntry[];  // 渲染中已进入的 Provider（时间片让出时需暂存 / 恢复 context 值）
+  caughtErrors: CapturedError[];      // 本次 render 被边界捕获的错误（提交后回调 onError）
+  fatalError: { error: any } | null;  // 本次 render 无边界捕获的错误（放弃提交，卸载 root）
+  onUncaughtError?: (error: any) => void;
+  isDehydrated: boolean;              // hydrateRoot 创建、尚未完成首次提交：首次 render 认领容器内已有 DOM
+  hydration: HydrationState | null;   // 本次 render 的 hydration 游标（仅 isDehydrated 时存在）
+}
+
+// hydration：按 fiber 树顺序认领服务端 DOM。游标存于 root，跨时间片保留
+interface HydrationState {
+  nextNode: any;                // 下一个待认领的宿主节点（由 host 决定跳过哪些节点，如注释）
+  skipRoot: FiberNode | null;   // 不一致 / Portal：该 fiber 子树改为客户端渲染，不认领
+  deletions: Array<{ parent: any; node: any }>; // 未被认领或不一致的服务端节点，提交时移除
+}
+
+export interface RootOptions {
+  onUncaughtError?: (error: any) => void; // 未被任何 ErrorBoundary 捕获的错误（root 已卸载）
 }
 
-let root: FiberRoot | null = null;          // 全局唯一 root（当前实现单 root）
-let workInProgress: FiberNode | null = null; // 正在构建的 fiber（depth-first）
-let rootElement: VNode | null = null;        // 保存根 vnode（重新调度时复用）
+let executingRoot: FiberRoot | null = null;  // 当前正在执行 render / commit 的 root（pushEffect 等使用）
+const containerRoots = new WeakMap<object, FiberRoot>(); // 容器 -> root（兼容旧 render(vnode, container) 入口）
 
 // ======================== Lanes（简化优先级） ==========================
 const Lanes = {
@@ -95,14 +182,70 @@ const Lanes = {
   HighLane: 1 << 1,
   NormalLane: 1 << 2,
   LowLane: 1 << 3,
-  IdleLane: 1 << 4
+  IdleLane: 1 << 4,
+  TransitionLane: 1 << 5 // startTransition 内的更新：优先级介于 normal 与 low 之间，可被高优打断
 };
+// 非紧急 lanes：只包含这些 lane 的 render 中 useDeferredValue 直接返回最新值
+const NonUrgentLanes = Lanes.TransitionLane | Lanes.LowLane | Lanes.IdleLane;
 function mergeLanes(a:number,b:number){ return a|b; }
-let pendingLanes = Lanes.NoLanes; // 等待处理的 lanes（新的更新合并进来）
+
+// 事件优先级：events.ts 派发 handler 期间以对应 lane 作为 ambient lane（离散交互同步、连续交互高优，其余 normal）
+export const EventPriority = {
+  Discrete: Lanes.UserBlockingLane,
+  Continuous: Lanes.HighLane,
+  Default: Lanes.NormalLane
+} as const;
+
+// 无显式优先级的更新使用的 lane（事件 handler 内为事件优先级，flushSync 回调内为同步 lane，startTransition 回调内为 transition lane）
+let updateLaneOverride: number = Lanes.NoLanes;
+export function requestUpdateLane() {
+  return updateLaneOverride || Lanes.NormalLane;
+}
+
+// 在 fn 执行期间，把未指定优先级的更新统一标记为 lane
+export function runWithUpdateLane<R>(lane: number, fn: () => R): R {
+  const prevLane = updateLaneOverride;
+  updateLaneOverride = lane;
+  try { return fn(); } finally { updateLaneOverride = prevLane; }
+}
+
+// 当前 render 是否只处理非紧急 lanes（transition / low / idle）
+export function isNonUrgentRender() {
+  const lanes = getRenderLanes();
+  return lanes !== Lanes.NoLanes && (lanes & ~NonUrgentLanes) === 0;
+}
+
+// hooks.ts 在 render 中读取：只处理 lane 属于 renderLanes 的更新
+export function getRenderLanes() {
+  return executingRoot ? executingRoot.renderLanes : Lanes.NoLanes;
+}
+
+// hooks.ts（useSyncExternalStore）：hydration 首次 render 中使用 getServerSnapshot
+export function isHydratingRender() {
+  return !!executingRoot?.hydration;
+}
+
+// hooks.ts（useSyncExternalStore）：并发 render 中登记读取的快照，提交前复查是否被时间片之间的 store 变化撕裂；
+// 同步 render 不会让出，无需登记
+export function recordStoreSnapshot(getSnapshot: () => any, value: any) {
+  if (executingRoot?.isRenderingConcurrent) executingRoot.storeConsistencyChecks.push({ getSnapshot, value });
+}
+
+function isRenderConsistentWithExternalStores(root: FiberRoot) {
+  for (const { getSnapshot, value } of root.storeConsistencyChecks) {
+    try { if (!Object.is(getSnapshot(), value)) return false; } catch { return false; }
+  }
+  return true;
+}
+
+// hooks.ts 跳过某个更新时回报其 lane：提交后该 lane 重新进入 pendingLanes
+export function markSkippedUpdateLanes(lane: number) {
+  if (executingRoot) executingRoot.skippedLanes = mergeLanes(executingRoot.skippedLanes, lane);
+}
 
 // ======================== Fiber 创建与复用 ============================
 function createFiber(tag: FiberTagType, pendingProps: any, key: any): FiberNode {
-  return { tag, type: null, key, stateNode: null, return: null, child: null, sibling: null, alternate: null, pendingProps, memoizedProps: null, flags: Flags.NoFlags, subtreeFlags: Flags.NoFlags, effectNext: null, hooks: undefined };
+  return { tag, type: null, key, stateNode: null, return: null, child: null, sibling: null, alternate: null, pendingProps, memoizedProps: null, flags: Flags.NoFlags, subtreeFlags: Flags.NoFlags, effectNext: null, hooks: undefined, lanes: Lanes.NoLanes, childLanes: Lanes.NoLanes, mode: FiberMode.NoMode, actualDuration: 0, actualStartTime: -1, selfBaseDuration: 0, treeBaseDuration: 0 };
 }
 function createWorkInProgress(current: FiberNode, pendingProps: any): FiberNode {
   // 双缓冲：使用 current.alternate 作为工作节点；若不存在则创建
@@ -111,6 +254,7 @@ function createWorkInProgress(current: FiberNode, pendingProps: any): FiberNode
   if (!wip) {
     wip = createFiber(current.tag, pendingProps, current.key);
     wip.stateNode = current.stateNode;
+    wip.mode = current.mode;
     wip.alternate = current;
     current.alternate = wip;
   } else {
@@ -121,43 +265,213 @@ function createWorkInProgress(current: FiberNode, pendingProps: any): FiberNode
     wip.effectNext = null;
   }
   wip.type = current.type;
+  // 组件未重新执行（bailout / 隐藏的 Offscreen）时沿用已提交的 hooks；重新执行时 prepareToUseHooks 会克隆一份
+  wip.hooks = current.hooks;
+  wip.memoizedState = current.memoizedState;
+  wip.updateQueue = current.updateQueue;
+  // 与 current 对齐：子树未被重新调和（bailout / 隐藏的 Offscreen）时，wip.child 仍指向已提交的子节点
+  wip.child = current.child;
+  wip.memoizedProps = current.memoizedProps;
+  wip.lanes = current.lanes;
+  wip.childLanes = current.childLanes;
+  wip.dependencies = current.dependencies;
+  // 未重新执行时沿用上次的自身耗时（计入父节点的 treeBaseDuration）；actualDuration 只统计本次 render
+  wip.actualDuration = 0;
+  wip.actualStartTime = -1;
+  wip.selfBaseDuration = current.selfBaseDuration;
+  wip.treeBaseDuration = current.treeBaseDuration;
   return wip;
 }
 
 // ======================== 渲染入口（外部调用） ========================
+// createRoot：为容器创建独立的 FiberRoot，返回 { render, unmount }
+export function createRoot(container: HTMLElement, options: RootOptions = {}) {
+  return createHostRoot(domHostConfig, container, options);
+}
+
+// 任意宿主的 root（createReconciler 使用）
+export function createHostRoot(host: HostConfig, container: any, options: RootOptions = {}) {
+  const root = createFiberRoot(container, host);
+  root.onUncaughtError = options.onUncaughtError;
+  return {
+    render(vnode: VNode) { updateContainer(root, vnode); },
+    unmount() { unmountRoot(root); }
+  };
+}
+
+function createFiberRoot(container: any, host: HostConfig = domHostConfig): FiberRoot {
+  if (containerRoots.has(container)) console.warn('[fiber] createRoot: container 已存在 root，旧 root 将不再响应 render()');
+  const hostRoot = createFiber(FiberTag.HostRoot, { children: [] }, null);
+  const root: FiberRoot = {
+    container, host, current: hostRoot, finishedWork: null, firstEffect: null, lastEffect: null,
+    element: null, pendingLanes: Lanes.NoLanes, renderLanes: Lanes.NoLanes, skippedLanes: Lanes.NoLanes,
+    pendingUpdateCounts: new Map(), renderUpdateCount: 0, renderMemoBailouts: [], renderStartTime: 0, commitStartTime: 0, committedLanes: Lanes.NoLanes, storeConsistencyChecks: [], workInProgress: null, wipRoot: null, isRenderingConcurrent: false,
+    pendingLayoutEffects: [], pendingPassiveEffects: [], passiveFlushScheduled: false, contextStack: [],
+    caughtErrors: [], fatalError: null, isDehydrated: false, hydration: null
+  };
+  hostRoot.stateNode = root; // HostRoot.stateNode 指向 FiberRoot（容器通过 root.container 获取）
+  containerRoots.set(container, root);
+  host.prepareContainer?.(container);
+  return root;
+}
+
+// hydrateRoot：容器内已有服务端渲染的 DOM（renderToString 输出），首次 render 复用这些节点
+// 而非重新创建；不一致的子树回退为客户端渲染并给出警告。之后与 createRoot 的 root 行为相同
+export function hydrateRoot(container: HTMLElement, vnode: VNode, options: RootOptions = {}) {
+  return hydrateHostRoot(domHostConfig, container, vnode, options);
+}
+
+export function hydrateHostRoot(host: HostConfig, container: any, vnode: VNode, options: RootOptions = {}) {
+  if (!host.getFirstHydratableChild) throw new Error('hydrateRoot: 当前宿主不支持 hydration');
+  const root = createFiberRoot(container, host);
+  root.onUncaughtError = options.onUncaughtError;
+  root.isDehydrated = true;
+  updateContainer(root, vnode);
+  return {
+    render(vnode: VNode) { updateContainer(root, vnode); },
+    unmount() { unmountRoot(root); }
+  };
+}
+
+// 容器当前已提交的 HostRoot fiber（测试渲染器等外部工具遍历 fiber 树用）
+export function getCurrentRootFiber(container: any): FiberNode | null {
+  return containerRoots.get(container)?.current ?? null;
+}
+
+// 兼容旧入口：同一容器多次调用复用同一个 root
 export function renderRoot(vnode: VNode, container: HTMLElement) {
-  // 将请求转交并发实现（内部自动判定是否同步）
-  renderRootConcurrentInternal(vnode, container);
+  const root = containerRoots.get(container) || createFiberRoot(container);
+  updateContainer(root, vnode);
+}
+
+function updateContainer(root: FiberRoot, vnode: VNode | null) {
+  root.element = vnode;
+  root.current.pendingProps = { children: vnode == null ? [] : [vnode] };
+  // 与 setState 一样进入批处理：同一任务内的多次 render() / 更新合并为一次渲染
+  scheduleUpdateOnRoot(root, requestUpdateLane());
+}
+
+// unmount：同步渲染空树（触发整棵子树的 Deletion + effect cleanup），随后解除容器关联
+function unmountRoot(root: FiberRoot) {
+  if (root.isRenderingConcurrent) { root.workInProgress = null; root.isRenderingConcurrent = false; }
+  scheduledRoots.delete(root);
+  root.isDehydrated = false;
+  root.pendingLanes = root.renderLanes = Lanes.NoLanes;
+  root.pendingUpdateCounts.clear();
+  root.renderUpdateCount = 0;
+  root.element = null;
+  root.current.pendingProps = { children: [] };
+  root.pendingLanes = Lanes.UserBlockingLane;
+  renderRootConcurrentInternal(root);
+  root.pendingLanes = Lanes.NoLanes;
+  if (containerRoots.get(root.container) === root) containerRoots.delete(root.container);
+}
+
+// 把 lane 标记到更新所在 fiber（lanes）及其祖先（childLanes），两棵树（current / alternate）同时标记；
+// 返回所属 FiberRoot（HostRoot.stateNode）
+function markUpdateLaneFromFiberToRoot(fiber: FiberNode, lane: number): FiberRoot | null {
+  fiber.lanes = mergeLanes(fiber.lanes, lane);
+  if (fiber.alternate) fiber.alternate.lanes = mergeLanes(fiber.alternate.lanes, lane);
+  let node = fiber;
+  let parent = fiber.return;
+  while (parent) {
+    parent.childLanes = mergeLanes(parent.childLanes, lane);
+    if (parent.alternate) parent.alternate.childLanes = mergeLanes(parent.alternate.childLanes, lane);
+    node = parent;
+    parent = parent.return;
+  }
+  return node.tag === FiberTag.HostRoot ? node.stateNode as FiberRoot : null;
 }
 
 // ======================== 同步 workLoop（高优） ========================
-function workLoopSync() {
-  while (workInProgress) {
-    performUnitOfWork(workInProgress);
+function workLoopSync(root: FiberRoot) {
+  executingRoot = root;
+  try {
+    while (root.workInProgress) {
+      try { performUnitOfWork(root, root.workInProgress); }
+      catch (thrown) { handleThrow(root, root.workInProgress, thrown); }
+    }
+  } finally {
+    executingRoot = null;
   }
 }
 
 // 执行一个 Fiber 工作单元：beginWork -> (child?) or complete
-function performUnitOfWork(fiber: FiberNode) {
-  const next = beginWork(fiber);
-  if (next) { workInProgress = next; return; }
-  completeUnitOfWork(fiber);
+function performUnitOfWork(root: FiberRoot, fiber: FiberNode) {
+  let next: FiberNode | null;
+  if (fiber.mode & FiberMode.ProfileMode) {
+    // Profiler 子树：记录 beginWork 自身耗时（completeWork 的耗时在 completeUnitOfWork 中累加）；
+    // bailout 时停止计时，沿用上次 render 的 selfBaseDuration
+    const start = fiber.actualStartTime = root.host.now();
+    next = beginWork(fiber);
+    if (fiber.actualStartTime >= 0) {
+      const elapsed = root.host.now() - start;
+      fiber.actualDuration += elapsed;
+      fiber.selfBaseDuration = elapsed;
+    }
+  } else {
+    next = beginWork(fiber);
+  }
+  if (next) { root.workInProgress = next; return; }
+  completeUnitOfWork(root, fiber);
 }
 
 // 向上回溯 completeWork，直到找到兄弟或回到根
-function completeUnitOfWork(fiber: FiberNode) {
+function completeUnitOfWork(root: FiberRoot, fiber: FiberNode) {
   let node: FiberNode | null = fiber;
   while (node) {
-    completeWork(node); // 构建真实节点 / 收集副作用
+    if (node.mode & FiberMode.ProfileMode) {
+      const start = root.host.now();
+      completeWork(node); // 构建真实节点 / 收集副作用
+      if (node.actualStartTime >= 0) {
+        const elapsed = root.host.now() - start;
+        node.actualDuration += elapsed;
+        node.selfBaseDuration += elapsed;
+      }
+      bubbleProfilerDurations(node);
+    } else {
+      completeWork(node);
+    }
     const sibling = node.sibling;
-    if (sibling) { workInProgress = sibling; return; }
+    if (sibling) { root.workInProgress = sibling; return; }
     node = node.return;
   }
-  workInProgress = null; // 回到根，渲染阶段结束
+  root.workInProgress = null; // 回到根，渲染阶段结束
+}
+
+// 子节点耗时汇总到父节点：子树整体 bailout（child 仍是已提交的节点）时只汇总 treeBaseDuration，
+// 已提交节点上残留的是上一次 render 的 actualDuration
+function bubbleProfilerDurations(fiber: FiberNode) {
+  const didBailout = !!fiber.alternate && fiber.child === fiber.alternate.child;
+  let treeBaseDuration = fiber.selfBaseDuration;
+  for (let child = fiber.child; child; child = child.sibling) {
+    if (!didBailout) fiber.actualDuration += child.actualDuration;
+    treeBaseDuration += child.treeBaseDuration;
+  }
+  fiber.treeBaseDuration = treeBaseDuration;
 }
 
 // ======================== beginWork：生成/复用子树 ====================
 function beginWork(fiber: FiberNode): FiberNode | null {
+  if (executingRoot?.hydration) tryToHydrate(executingRoot.hydration, fiber);
+  const renderLanes = getRenderLanes();
+  // Bailout：props 引用未变（父组件未重新创建该元素）、自身无本次要处理的 lane、读取的 context 未变化
+  // 且不是捕获后的重新 beginWork（ErrorBoundary / Suspense 渲染 fallback）
+  const current = fiber.alternate;
+  if (current && current.memoizedProps === fiber.pendingProps && !(fiber.lanes & renderLanes)
+    && !(fiber.flags & Flags.DidCapture) && !checkContextChanged(current)) {
+    return bailoutOnAlreadyFinishedWork(fiber, renderLanes);
+  }
+  // memo：props 引用变化但比较函数判定相等，同样跳过（MemoBailout 仅供 DevTools / 统计区分，不进入 effect list；提交后清除）
+  if (current && isMemoComponent(fiber.type) && !(fiber.lanes & renderLanes) && !checkContextChanged(current)
+    && (fiber.type.compare || shallowEqual)(current.memoizedProps, fiber.pendingProps)) {
+    fiber.flags |= Flags.MemoBailout;
+    if (executingRoot) executingRoot.renderMemoBailouts.push(fiber);
+    if (debugConfig.render.logMemoBailout) debugLog(`memo bailout: ${fiber.type.name}`);
+    return bailoutOnAlreadyFinishedWork(fiber, renderLanes);
+  }
+  // 本次处理这些 lanes；其他 lane 的更新仍留在 fiber 上，留待对应的 render
+  fiber.lanes &= ~renderLanes;
   switch (fiber.tag) {
     case FiberTag.HostRoot: {
       // HostRoot 的 pendingProps.children 挂载整个应用的 rootElement
@@ -167,6 +481,8 @@ function beginWork(fiber: FiberNode): FiberNode | null {
     }
     case FiberTag.FunctionComponent:
       return updateFunctionComponent(fiber);
+    case FiberTag.ClassComponent:
+      return updateClassComponent(fiber, renderLanes);
     case FiberTag.HostComponent:
       return updateHostComponent(fiber);
     case FiberTag.Fragment:
@@ -174,6 +490,23 @@ function beginWork(fiber: FiberNode): FiberNode | null {
       const fragChildren = fiber.pendingProps?.children || [];
       reconcileChildren(fiber, fragChildren);
       return fiber.child;
+    case FiberTag.Mode:
+    case FiberTag.Profiler:
+      // StrictMode / Profiler：模式位已在创建子 fiber 时继承，这里与 Fragment 相同
+      reconcileChildren(fiber, fiber.pendingProps?.children || []);
+      return fiber.child;
+    case FiberTag.ContextProvider:
+      return updateContextProvider(fiber);
+    case FiberTag.ErrorBoundary:
+      return updateErrorBoundary(fiber);
+    case FiberTag.SuspenseComponent:
+      return updateSuspenseComponent(fiber);
+    case FiberTag.Offscreen:
+      return updateOffscreenComponent(fiber);
+    case FiberTag.HostPortal:
+      fiber.stateNode = fiber.pendingProps.container;
+      reconcileChildren(fiber, fiber.pendingProps.children || []);
+      return fiber.child;
     case FiberTag.Text:
       return null;
     default:
@@ -197,11 +530,24 @@ function shallowEqualExceptChildren(a:any,b:any){
   return true;
 }
 
+// 跳过本 fiber 的 render：子树也没有本次要处理的 lane 时整体跳过（wip.child 沿用已提交的子节点），
+// 否则克隆直接子节点继续向下，只有带 lane 的 fiber 重新执行
+function bailoutOnAlreadyFinishedWork(fiber: FiberNode, renderLanes: number): FiberNode | null {
+  // 与正常 beginWork 对齐 completeWork 所需的状态：Provider 出栈前需先入栈，边界需有回滚点
+  if (fiber.tag === FiberTag.ContextProvider) pushProvider(fiber, fiber.pendingProps?.value);
+  if (fiber.tag === FiberTag.ErrorBoundary || fiber.tag === FiberTag.SuspenseComponent) markUnwindPoint(fiber);
+  fiber.actualStartTime = -1; // Profiler 计时：本 fiber 未重新执行，不更新自身耗时
+  if (!(fiber.childLanes & renderLanes)) return null;
+  cloneChildFibers(fiber, fiber.alternate);
+  return fiber.child;
+}
+
 // 克隆旧子树（bailout）
 function cloneChildFibers(parentWip: FiberNode, currentParent: FiberNode | null): FiberNode | null {
   if (!currentParent) return null;
   let prevWip: FiberNode | null = null;
   let currentChild = currentParent.child;
+  parentWip.child = null;
   while (currentChild){
     const cloned = createWorkInProgress(currentChild, currentChild.pendingProps ?? currentChild.memoizedProps);
     cloned.return = parentWip;
@@ -209,35 +555,434 @@ function cloneChildFibers(parentWip: FiberNode, currentParent: FiberNode | null)
     prevWip = cloned;
     currentChild = currentChild.sibling;
   }
+  if (prevWip) prevWip.sibling = null;
   return parentWip.child;
 }
 
+// ======================== Context 值栈 ================================
+// Provider beginWork 压栈（改写 context._currentValue），completeWork 出栈恢复；
+// 并发渲染让出时暂存整栈，避免其他 root / 外部代码在两个时间片之间读到本次渲染的中间值
+interface ContextStackEntry { context: Context<any>; prevValue: any; value: any; }
+
+function pushProvider(fiber: FiberNode, value: any) {
+  const context = fiber.type._context as Context<any>;
+  executingRoot?.contextStack.push({ context, prevValue: context._currentValue, value });
+  context._currentValue = value;
+}
+function popProvider(fiber: FiberNode) {
+  const entry = executingRoot?.contextStack.pop();
+  const context = fiber.type._context as Context<any>;
+  context._currentValue = entry && entry.context === context ? entry.prevValue : context._defaultValue;
+}
+// 时间片让出：按入栈逆序恢复为进入 Provider 之前的值
+function suspendContextStack(root: FiberRoot) {
+  for (let i = root.contextStack.length - 1; i >= 0; i--) {
+    const entry = root.contextStack[i];
+    entry.context._currentValue = entry.prevValue;
+  }
+}
+// 时间片恢复：按入栈顺序重新应用 Provider 值
+function resumeContextStack(root: FiberRoot) {
+  for (const entry of root.contextStack) entry.context._currentValue = entry.value;
+}
+// 放弃当前 WIP（重新从根开始）时清空
+function resetContextStack(root: FiberRoot) {
+  suspendContextStack(root);
+  root.contextStack.length = 0;
+}
+
+// 检查上一次提交时读取的 context 是否已变化（此时 Provider 已在 beginWork 中压入最新值）
+function checkContextChanged(current: FiberNode | null) {
+  const deps = current?.dependencies;
+  if (!deps) return false;
+  return deps.some(dep => !Object.is(dep.context._currentValue, dep.memoizedValue));
+}
+
+// ======================== ContextProvider 更新 =========================
+function updateContextProvider(fiber: FiberNode) {
+  const props = fiber.pendingProps || {};
+  const current = fiber.alternate;
+  if (current?.memoizedProps && !Object.is(current.memoizedProps.value, props.value)) {
+    propagateContextChange(fiber, fiber.type._context, getRenderLanes());
+  }
+  pushProvider(fiber, props.value);
+  reconcileChildren(fiber, props.children || []);
+  return fiber.child;
+}
+
+// value 变化：在已提交的子树中找出读取了该 context 的 fiber，标记本次 render 的 lane（及到 Provider 的 childLanes），
+// 使其不会因中间组件 bailout 而漏掉更新。遇到同一 context 的内层 Provider 时不再深入
+function propagateContextChange(provider: FiberNode, context: Context<any>, renderLanes: number) {
+  let node = provider.child;
+  while (node) {
+    let descend = true;
+    if (node.dependencies?.some(dep => dep.context === context)) {
+      node.lanes = mergeLanes(node.lanes, renderLanes);
+      if (node.alternate) node.alternate.lanes = mergeLanes(node.alternate.lanes, renderLanes);
+      scheduleContextWorkOnParentPath(node.return, provider, renderLanes);
+    } else if (node.tag === FiberTag.ContextProvider && node.type._context === context) {
+      descend = false;
+    }
+    if (descend && node.child) { node = node.child; continue; }
+    // 回溯到有兄弟的祖先（不越过 Provider 本身；已提交子节点的 return 可能指向 Provider 的 alternate）
+    while (node && !node.sibling) {
+      node = node.return;
+      if (!node || node === provider || node === provider.alternate) { node = null; break; }
+    }
+    if (node) node = node.sibling;
+  }
+}
+
+function scheduleContextWorkOnParentPath(parent: FiberNode | null, provider: FiberNode, renderLanes: number) {
+  let node = parent;
+  while (node && node !== provider && node !== provider.alternate) {
+    node.childLanes = mergeLanes(node.childLanes, renderLanes);
+    if (node.alternate) node.alternate.childLanes = mergeLanes(node.alternate.childLanes, renderLanes);
+    node = node.return;
+  }
+  provider.childLanes = mergeLanes(provider.childLanes, renderLanes);
+}
+
+// ======================== ErrorBoundary 更新 ==========================
+// 回滚点：进入边界时 effect list 尾部 / 待执行 effect 数量 / context 栈深度
+interface UnwindSnapshot {
+  lastEffect: FiberNode | null; layoutCount: number; passiveCount: number; contextDepth: number;
+  hydration: HydrationState | null; // hydration 游标副本（回滚后 fallback 从同一位置继续认领）
+}
+interface CapturedError { boundary: FiberNode; error: any; }
+
+function markUnwindPoint(fiber: FiberNode) {
+  const root = executingRoot;
+  if (!root) return;
+  fiber.unwindSnapshot = {
+    lastEffect: root.lastEffect,
+    layoutCount: root.pendingLayoutEffects.length,
+    passiveCount: root.pendingPassiveEffects.length,
+    contextDepth: root.contextStack.length,
+    hydration: root.hydration && { ...root.hydration, deletions: root.hydration.deletions.slice() }
+  };
+}
+// 回滚到边界的快照：丢弃边界子树在本次 render 中已收集的副作用与 context 压栈
+function unwindToBoundary(root: FiberRoot, boundary: FiberNode) {
+  const snapshot = boundary.unwindSnapshot!;
+  // 1. effect list 截断到进入边界之前
+  root.lastEffect = snapshot.lastEffect;
+  if (snapshot.lastEffect) snapshot.lastEffect.effectNext = null; else root.firstEffect = null;
+  // 2. 边界子树内收集的 layout / passive effect 丢弃
+  root.pendingLayoutEffects.length = snapshot.layoutCount;
+  root.pendingPassiveEffects.length = snapshot.passiveCount;
+  // 3. 子树内进入的 Provider 出栈
+  while (root.contextStack.length > snapshot.contextDepth) {
+    const entry = root.contextStack.pop()!;
+    entry.context._currentValue = entry.prevValue;
+  }
+  // 4. hydration 游标回到进入边界之前
+  if (snapshot.hydration) root.hydration = { ...snapshot.hydration, deletions: snapshot.hydration.deletions.slice() };
+}
+
+function updateErrorBoundary(fiber: FiberNode) {
+  const instance: ErrorBoundaryInstance = fiber.stateNode || (fiber.stateNode = { hasError: false, error: null });
+  markUnwindPoint(fiber);
+  const props = fiber.pendingProps || {};
+  let children = props.children || [];
+  if (instance.hasError) {
+    const reset = () => {
+      instance.hasError = false; instance.error = null;
+      scheduleRootUpdate(fiber, Lanes.UserBlockingLane);
+    };
+    children = typeof props.fallback === 'function' ? props.fallback(instance.error, reset) : props.fallback;
+  }
+  reconcileChildren(fiber, children);
+  return fiber.child;
+}
+
+// 从出错 fiber 向上找最近的可用边界（本轮已捕获过 / 正显示 fallback 的边界跳过，交给更外层）
+function findErrorBoundary(fiber: FiberNode | null, skipCaptured: boolean): FiberNode | null {
+  let node = fiber;
+  while (node) {
+    if (node.tag === FiberTag.ErrorBoundary) {
+      const captured = skipCaptured ? (node.flags & Flags.DidCapture) : (node.stateNode as ErrorBoundaryInstance | null)?.hasError;
+      if (!captured) return node;
+    }
+    node = node.return;
+  }
+  return null;
+}
+
+// render 阶段抛错：回滚到边界的快照，丢弃半成品子树，重新 beginWork 边界（渲染 fallback）
+// 抛出 thenable 视为挂起，交给最近的 Suspense；其余交给最近的 ErrorBoundary
+function handleThrow(root: FiberRoot, fiber: FiberNode | null, thrown: any) {
+  finishHooks(); // 组件函数中途抛错时 currentFiber 仍指向它，必须清理
+  let error = thrown;
+  if (isThenable(thrown)) {
+    const suspenseBoundary = findSuspenseBoundary(fiber?.return ?? null);
+    if (suspenseBoundary) {
+      unwindToBoundary(root, suspenseBoundary);
+      suspenseBoundary.flags |= Flags.DidCapture;
+      attachRetryListener(suspenseBoundary, thrown);
+      root.workInProgress = suspenseBoundary; // 从边界重新开始（主内容隐藏 + 渲染 fallback）
+      return;
+    }
+    error = new Error('A component suspended while rendering, but no <Suspense> boundary was found above it.');
+  }
+  const boundary = findErrorBoundary(fiber?.return ?? null, true);
+  if (!boundary || !boundary.unwindSnapshot) {
+    resetContextStack(root);
+    root.fatalError = { error };
+    root.workInProgress = null; // 终止本次渲染
+    return;
+  }
+  unwindToBoundary(root, boundary);
+  const instance = boundary.stateNode as ErrorBoundaryInstance;
+  instance.hasError = true; instance.error = error;
+  boundary.flags |= Flags.DidCapture;
+  root.caughtErrors.push({ boundary, error });
+  root.workInProgress = boundary; // 从边界重新开始（fallback 与旧 children 调和，旧节点标记删除）
+}
+
+// commit / passive 阶段的错误：标记最近边界并以高优重新渲染；无边界则视为未捕获
+function captureCommitPhaseError(root: FiberRoot, fiber: FiberNode, error: any) {
+  const boundary = findErrorBoundary(fiber.return, false);
+  if (!boundary) { handleUncaughtError(root, error); return; }
+  const instance = boundary.stateNode as ErrorBoundaryInstance;
+  instance.hasError = true; instance.error = error;
+  reportCaughtError({ boundary, error });
+  scheduleRootUpdate(boundary, Lanes.UserBlockingLane);
+}
+
+function reportCaughtError({ boundary, error }: CapturedError) {
+  console.error('[fiber] error caught by ErrorBoundary', error);
+  const onError = (boundary.memoizedProps || boundary.pendingProps)?.onError;
+  if (typeof onError === 'function') {
+    try { onError(error); } catch(e){ console.error('ErrorBoundary onError error', e); }
+  }
+}
+
+// 未捕获错误：干净地卸载整个 root（执行 effect cleanup），随后通知 onUncaughtError
+function handleUncaughtError(root: FiberRoot, error: any) {
+  if (root.element == null) return; // 已卸载
+  try { unmountRoot(root); } catch(e){ console.error('unmount after uncaught error failed', e); }
+  if (root.onUncaughtError) root.onUncaughtError(error);
+  else console.error('[fiber] uncaught error, root unmounted', error);
+}
+
+// render 结束：无致命错误则提交；否则放弃本次 WIP 并卸载 root
+function finishRender(root: FiberRoot) {
+  // 本次 render 结束：跳过的低优更新 lanes 归还 pendingLanes
+  const renderedLanes = root.renderLanes, updateCount = root.renderUpdateCount, memoBailouts = root.renderMemoBailouts;
+  root.renderLanes = Lanes.NoLanes;
+  root.renderUpdateCount = 0;
+  root.renderMemoBailouts = [];
+  root.pendingLanes = mergeLanes(root.pendingLanes, root.skippedLanes);
+  root.skippedLanes = Lanes.NoLanes;
+  if (root.fatalError) {
+    const { error } = root.fatalError;
+    root.fatalError = null;
+    root.firstEffect = root.lastEffect = null;
+    clearMemoBailouts(memoBailouts);
+    handleUncaughtError(root, error);
+    flushDeferredSyncWork();
+    return;
+  }
+  root.committedLanes = renderedLanes;
+  commitRoot(root, root.wipRoot);
+  // MemoBailout 只描述本次提交（DevTools 已在 commitRoot 中读取）：清除，避免 fiber 复用时残留到之后的提交
+  clearMemoBailouts(memoBailouts);
+  recordCommitBatch(updateCount, renderedLanes, memoBailouts.length);
+  // 仍有未处理的 lanes（被跳过 / render 期间新到的低优更新）-> 继续调度
+  if (root.pendingLanes && root.element != null) ensureRootScheduled(root);
+  flushDeferredSyncWork();
+}
+
+function clearMemoBailouts(fibers: FiberNode[]) {
+  for (const fiber of fibers) fiber.flags &= ~Flags.MemoBailout;
+}
+
+// ======================== Hydration =================================
+// beginWork 前认领：HostComponent 需标签一致，Text 需为文本节点；认领成功则清除 Placement（节点已在 DOM 中）
+// 不一致：警告 + 该服务端节点在提交时移除，当前 fiber 子树改为客户端渲染（保留 Placement 插入新节点）
+// 非 host fiber（函数组件 / Fragment 等）不对应 DOM 节点，直接清除 Placement
+function tryToHydrate(hydration: HydrationState, fiber: FiberNode) {
+  if (hydration.skipRoot || fiber.alternate) return;
+  if (fiber.tag === FiberTag.HostPortal) { hydration.skipRoot = fiber; return; } // 服务端不输出 portal 内容
+  if (fiber.tag !== FiberTag.HostComponent && fiber.tag !== FiberTag.Text) { fiber.flags &= ~Flags.Placement; return; }
+  const host = executingRoot!.host;
+  const node = hydration.nextNode;
+  if (fiber.tag === FiberTag.Text) {
+    const text = String(fiber.pendingProps);
+    if (text === '') return; // 服务端不输出空文本：客户端创建
+    const serverText = node ? host.getHydratableText!(node) : null;
+    if (serverText != null) {
+      if (serverText !== text) {
+        warnHydrationMismatch(fiber, `文本不一致：服务端 ${JSON.stringify(serverText)}，客户端 ${JSON.stringify(text)}`);
+        fiber.flags |= Flags.Update; // commit 阶段以客户端文本为准写入
+      }
+      claimHydratableNode(hydration, fiber, node);
+      return;
+    }
+  } else if (node && host.canHydrateInstance!(node, String(fiber.type))) {
+    claimHydratableNode(hydration, fiber, node);
+    hydration.nextNode = host.getFirstHydratableChild!(node); // 进入子节点
+    return;
+  }
+  warnHydrationMismatch(fiber, `期望 ${describeFiber(fiber)}，服务端为 ${node ? describeHydratableNode(node) : '（无节点）'}`);
+  if (node) {
+    hydration.deletions.push({ parent: findHostParent(fiber), node });
+    hydration.nextNode = host.getNextHydratableSibling!(node);
+  }
+  if (fiber.tag === FiberTag.HostComponent) hydration.skipRoot = fiber;
+}
+
+function claimHydratableNode(hydration: HydrationState, fiber: FiberNode, node: any) {
+  fiber.stateNode = node;
+  fiber.flags &= ~Flags.Placement;
+  hydration.nextNode = executingRoot!.host.getNextHydratableSibling!(node);
+}
+
+// completeWork 中离开 host 节点：剩余未认领的子节点多余（服务端多渲染了），提交时移除；游标回到其后的兄弟
+function popHydrationState(hydration: HydrationState, fiber: FiberNode) {
+  if (hydration.skipRoot === fiber) { hydration.skipRoot = null; return; }
+  if (hydration.skipRoot) return;
+  const host = executingRoot!.host;
+  const parent = fiber.tag === FiberTag.HostRoot ? (fiber.stateNode as FiberRoot).container : fiber.stateNode;
+  // <textarea> 的服务端子文本是初始 value（见 server.ts），不对应 fiber 子节点
+  let extra = fiber.tag === FiberTag.HostComponent && fiber.type === 'textarea' ? null : hydration.nextNode;
+  while (extra) {
+    warnHydrationMismatch(fiber, `服务端多出节点 ${describeHydratableNode(extra)}`);
+    hydration.deletions.push({ parent, node: extra });
+    extra = host.getNextHydratableSibling!(extra);
+  }
+  hydration.nextNode = fiber.tag === FiberTag.HostRoot ? null : host.getNextHydratableSibling!(fiber.stateNode);
+}
+
+function describeFiber(fiber: FiberNode) {
+  return fiber.tag === FiberTag.Text ? `文本 ${JSON.stringify(String(fiber.pendingProps))}` : `<${fiber.type}>`;
+}
+function describeHydratableNode(node: any) {
+  const host = executingRoot!.host;
+  return host.describeHydratableNode ? host.describeHydratableNode(node) : String(node);
+}
+
+function warnHydrationMismatch(fiber: FiberNode, detail: string) {
+  const parent = fiber.tag === FiberTag.HostRoot ? null : findHostParent(fiber);
+  const where = parent && parent.nodeName ? `（位于 <${parent.nodeName.toLowerCase()}> 内）` : '';
+  console.warn(`[fiber] hydration 不一致${where}：${detail}，该子树改为客户端渲染`);
+}
+
+// ======================== Suspense / Offscreen 更新 ===================
+// Suspense 子结构：Suspense -> Offscreen(主内容, visible/hidden) [-> Fragment(fallback)]
+// 挂起时主内容 Offscreen 切为 hidden：不重新渲染，直接沿用已提交的子 fiber（hook 状态保留），DOM 隐藏
+const OffscreenType = Symbol('Offscreen');
+interface SuspenseInstance { retryThenables: WeakSet<PromiseLike<any>>; }
+
+function updateSuspenseComponent(fiber: FiberNode) {
+  if (!fiber.stateNode) fiber.stateNode = { retryThenables: new WeakSet() } as SuspenseInstance;
+  markUnwindPoint(fiber);
+  const props = fiber.pendingProps || {};
+  const showFallback = (fiber.flags & Flags.DidCapture) !== 0;
+  const primary = createElement(OffscreenType, { mode: showFallback ? 'hidden' : 'visible', children: props.children || [] });
+  const children = showFallback ? [primary, createElement(Fragment, null, props.fallback)] : [primary];
+  reconcileChildren(fiber, children);
+  return fiber.child;
+}
+
+function updateOffscreenComponent(fiber: FiberNode) {
+  const props = fiber.pendingProps || {};
+  const current = fiber.alternate;
+  const hidden = props.mode === 'hidden';
+  const wasHidden = current?.memoizedProps?.mode === 'hidden';
+  if (current && hidden !== wasHidden) fiber.flags |= Flags.Visibility;
+  if (hidden) {
+    // 不进入子树：克隆已提交的直接子节点（其更深层仍指向 current），首次挂载即挂起则没有主内容
+    if (current) cloneChildFibers(fiber, current); else fiber.child = null;
+    return null;
+  }
+  reconcileChildren(fiber, props.children || []);
+  return fiber.child;
+}
+
+function findSuspenseBoundary(fiber: FiberNode | null): FiberNode | null {
+  let node = fiber;
+  while (node) {
+    if (node.tag === FiberTag.SuspenseComponent && !(node.flags & Flags.DidCapture)) return node;
+    node = node.return;
+  }
+  return null;
+}
+
+// thenable 结束（成功或失败）后重试边界；同一 thenable 只注册一次
+function attachRetryListener(boundary: FiberNode, thenable: PromiseLike<any>) {
+  const instance = boundary.stateNode as SuspenseInstance;
+  if (instance.retryThenables.has(thenable)) return;
+  instance.retryThenables.add(thenable);
+  const retry = () => scheduleRootUpdate(boundary, Lanes.NormalLane);
+  thenable.then(retry, retry);
+}
+
 // ======================== FunctionComponent 更新 ======================
 function updateFunctionComponent(fiber: FiberNode) {
-  // Bailout：props 未变化且无更新相关 flags -> 直接克隆子树
-  if (fiber.alternate && fiber.alternate.memoizedProps && shallowEqual(fiber.alternate.memoizedProps, fiber.pendingProps) && !(fiber.flags & (Flags.Update | Flags.Placement | Flags.Deletion))) {
-    if (!fiber.hooks && fiber.alternate.hooks) fiber.hooks = fiber.alternate.hooks; // 复用 hooks 容器
-    cloneChildFibers(fiber, fiber.alternate);
-    return fiber.child; // 跳过重新执行组件函数
-  }
-  // 复用旧 hooks 引用（使第一次进入 hooks.ts 时看到旧数组，内部按索引更新）
-  if (!fiber.hooks && fiber.alternate && fiber.alternate.hooks) {
-    fiber.hooks = fiber.alternate.hooks;
+  // （props 引用未变且无待处理 lane 时已在 beginWork 中 bailout）进入 hooks 环境
+  let vnode = renderWithHooks(fiber);
+  if (debugConfig.dev && (fiber.mode & FiberMode.StrictMode)) {
+    // StrictMode：再执行一次并采用第二次的结果；prepareToUseHooks 重新从已提交的 hooks 克隆，第一次的 hook 状态随之丢弃
+    const discarded = vnode;
+    vnode = renderWithHooks(fiber);
+    warnIfRenderOutputDiffers(fiber, discarded, vnode);
   }
-  // 进入 hooks 环境
+  finishHooks();
+  reconcileChildren(fiber, [vnode]);
+  return fiber.child;
+}
+
+function renderWithHooks(fiber: FiberNode): VNode {
   prepareToUseHooks(fiber);
   const props = fiber.pendingProps && typeof fiber.pendingProps === 'object' ? { ...fiber.pendingProps } : fiber.pendingProps;
   const vnode: VNode = fiber.type(props || {}); // 执行函数组件，返回子 VNode
-  finishHooks();
-  reconcileChildren(fiber, [vnode]);
-  // 收集 effect：只要本组件 hooks 中有首次或依赖变化的 effect，就将该函数组件 Fiber 放入待处理队列
-  const hooks = fiber.hooks || [];
-  for (const h of hooks){
-    if (h && h.__type==='effect' && (h.firstRun || h.depsChanged)) { pushEffectFiber(fiber); break; }
+  checkRenderedHookCount(); // 开发模式：hook 数量与上次 render 一致（抛错交给错误边界）
+  return vnode;
+}
+
+// 同一组件类型只警告一次
+const warnedImpureComponents = new WeakSet<Function>();
+function warnIfRenderOutputDiffers(fiber: FiberNode, first: VNode, second: VNode) {
+  if (warnedImpureComponents.has(fiber.type)) return;
+  const diff = findRenderOutputDiff(first, second);
+  if (!diff) return;
+  warnedImpureComponents.add(fiber.type);
+  console.warn(`[StrictMode] 组件 ${fiber.type.displayName || fiber.type.name || 'Anonymous'} 两次 render 的输出不同（${diff}），render 应是 props / state 的纯函数：请把随机数、时间、外部可变变量的读写移到 effect 或事件中`);
+}
+
+// ======================== ClassComponent 更新 =========================
+function updateClassComponent(fiber: FiberNode, renderLanes: number) {
+  const current = fiber.alternate;
+  const props = fiber.pendingProps || {};
+  let instance = fiber.stateNode as Component | null;
+  let shouldUpdate = true;
+  if (!instance) {
+    instance = constructClassInstance(fiber, props);
+  } else {
+    const hasForceUpdate = processClassUpdateQueue(fiber, props, instance);
+    // 首次挂载被捕获后重新 beginWork（无 current）时不询问 shouldComponentUpdate
+    if (current && !hasForceUpdate) {
+      shouldUpdate = checkShouldComponentUpdate(instance, current.memoizedProps, props, current.memoizedState, fiber.memoizedState);
+    }
   }
+  // 不 render 时同样更新为新值（与 React 一致）
+  instance.props = props;
+  instance.state = fiber.memoizedState;
+  if (!shouldUpdate) return bailoutOnAlreadyFinishedWork(fiber, renderLanes);
+  fiber.flags |= Flags.Lifecycle;
+  if (current && typeof instance.getSnapshotBeforeUpdate === 'function') fiber.flags |= Flags.Snapshot;
+  reconcileChildren(fiber, [instance.render()]);
   return fiber.child;
 }
 
+function checkShouldComponentUpdate(instance: Component, oldProps: any, newProps: any, oldState: any, newState: any) {
+  if (typeof instance.shouldComponentUpdate === 'function') return !!instance.shouldComponentUpdate(newProps, newState);
+  if ((instance as any).isPureReactComponent) return !shallowEqual(oldProps, newProps) || !shallowEqual(oldState, newState);
+  return true;
+}
+
 // ======================== HostComponent 更新 ==========================
 function updateHostComponent(fiber: FiberNode) {
   const prev = fiber.alternate;
@@ -246,8 +991,7 @@ function updateHostComponent(fiber: FiberNode) {
   if (prev && prev.memoizedProps && shallowEqualExceptChildren(prev.memoizedProps, fiber.pendingProps) ) {
     const prevChildren = prev.memoizedProps?.children || [];
     if (prevChildren === nextChildren || (Array.isArray(prevChildren) && Array.isArray(nextChildren) && prevChildren.length===0 && nextChildren.length===0)) {
-      cloneChildFibers(fiber, prev);
-      return fiber.child;
+      return bailoutOnAlreadyFinishedWork(fiber, getRenderLanes());
     }
   }
   const children = nextChildren;
@@ -261,9 +1005,31 @@ function wrapProps(vnode: any) {
   if (!vnode) return {};
   const ch = vnode.children && vnode.children.length ? vnode.children : null;
   if (!ch) return vnode.props || {};
+  // createElement 已把 children 放进 props：直接复用，同一元素对象得到同一 props 引用（beginWork 据此 bailout）
+  if (vnode.props && vnode.props.children === ch) return vnode.props;
   return { ...(vnode.props || {}), children: vnode.children };
 }
 
+// 由 VNode.type 推断新 fiber 的 tag
+function getFiberTag(vnode: any): FiberTagType {
+  if (vnode.__isFragment) return FiberTag.Fragment;
+  if (isContextProvider(vnode.type)) return FiberTag.ContextProvider;
+  if (vnode.type === ErrorBoundary) return FiberTag.ErrorBoundary;
+  if (vnode.type === Suspense) return FiberTag.SuspenseComponent;
+  if (vnode.type === OffscreenType) return FiberTag.Offscreen;
+  if (vnode.type === Portal) return FiberTag.HostPortal;
+  if (vnode.type === StrictMode) return FiberTag.Mode;
+  if (vnode.type === Profiler) return FiberTag.Profiler;
+  if (isClassComponent(vnode.type)) return FiberTag.ClassComponent;
+  return typeof vnode.type === 'function' ? FiberTag.FunctionComponent : FiberTag.HostComponent;
+}
+
+// 旧 fiber 能否复用：type 相同；Portal 还要求目标容器不变（换容器视为重新挂载）
+function canReuseFiber(old: FiberNode, vnode: any) {
+  if (old.type !== vnode.type) return false;
+  return old.tag !== FiberTag.HostPortal || old.stateNode === vnode.props?.container;
+}
+
 // reconcileChildren：支持 keyed & 非 keyed 两种模式
 function reconcileChildren(returnFiber: FiberNode, children: any[]) {
   if (!children) children = [];
@@ -281,13 +1047,17 @@ function reconcileChildren(returnFiber: FiberNode, children: any[]) {
   const keyable = children.length > 0 && children.every(c => typeof c !== 'string' && typeof c !== 'number') && children.some(c => c && c.key != null);
 
   let oldFiber = returnFiber.alternate?.child || null;
+  // 复用的 WIP 节点可能残留上一轮的 child / sibling 指针，先清空再重新串联
+  returnFiber.child = null;
 
   if (keyable) {
     // ---------- keyed diff ----------
+    // 无 key 的旧 fiber 以位置索引入表，保证未复用时也能被标记删除
+    const mapKey = (key: any, index: number) => key != null ? 'k:' + key : 'i:' + index;
     const oldKeyMap = new Map<any, FiberNode>();
     let of = oldFiber;
     let oldIndexCounter = 0;
-    while (of) { if (of.key != null) { (of as any)._oldIndex = oldIndexCounter; oldKeyMap.set(of.key, of); } of = of.sibling; oldIndexCounter++; }
+    while (of) { (of as any)._oldIndex = oldIndexCounter; oldKeyMap.set(mapKey(of.key, oldIndexCounter), of); of = of.sibling; oldIndexCounter++; }
 
     let prevNewFiber: FiberNode | null = null;
     const used = new Set<any>();
@@ -295,14 +1065,14 @@ function reconcileChildren(returnFiber: FiberNode, children: any[]) {
 
     for (let i = 0; i < children.length; i++) {
       const child = children[i];
-      if (child == null) continue;
+      if (child == null || typeof child === 'boolean') continue;
       let newFiber: FiberNode | null = null;
       if (typeof child === 'string' || typeof child === 'number') {
         newFiber = createFiber(FiberTag.Text, String(child), null);
         newFiber.flags |= Flags.Placement;
       } else {
-        const matched = child.key != null ? oldKeyMap.get(child.key) : null;
-        if (matched && matched.type === child.type) {
+        const matched = oldKeyMap.get(mapKey(child.key, i));
+        if (matched && canReuseFiber(matched, child)) {
           // 复用旧 fiber
           const newPending = wrapProps(child);
           newFiber = createWorkInProgress(matched, newPending);
@@ -315,21 +1085,22 @@ function reconcileChildren(returnFiber: FiberNode, children: any[]) {
           } else {
             lastPlacedIndex = oldIdx;
           }
-          used.add(child.key);
+          used.add(mapKey(child.key, i));
         } else {
           const wProps = wrapProps(child);
-          const tag = child.__isFragment ? FiberTag.Fragment : (typeof child.type === 'function' ? FiberTag.FunctionComponent : FiberTag.HostComponent);
-          newFiber = createFiber(tag, wProps, child.key);
-          newFiber.type = child.__isFragment ? null : child.type;
+          newFiber = createFiber(getFiberTag(child), wProps, child.key);
+          newFiber.type = child.type;
           newFiber.flags |= Flags.Placement;
         }
       }
       newFiber.return = returnFiber;
+      inheritMode(newFiber, returnFiber);
       if (!prevNewFiber) returnFiber.child = newFiber; else prevNewFiber.sibling = newFiber;
       prevNewFiber = newFiber;
     }
+    if (prevNewFiber) prevNewFiber.sibling = null;
     // 删除未复用的旧 fiber
-    oldKeyMap.forEach((f, k) => { if (!used.has(k)) { f.flags |= Flags.Deletion; pushEffect(f); } });
+    oldKeyMap.forEach((f, k) => { if (!used.has(k)) deleteChild(f); });
     return; // keyed 结束
   }
 
@@ -338,103 +1109,177 @@ function reconcileChildren(returnFiber: FiberNode, children: any[]) {
   let old = oldFiber;
   for (let i = 0; i < children.length; i++) {
     const child = children[i];
-    if (child == null) continue;
+    // 空位（null / boolean，如 {cond && <X/>}）同样占据一个位置：该位置的旧 fiber 无法复用
+    if (child == null || typeof child === 'boolean') { if (old) { deleteChild(old); old = old.sibling; } continue; }
     let newFiber: FiberNode | null = null;
 
     if (typeof child === 'string' || typeof child === 'number') {
       if (old && old.tag === FiberTag.Text) {
         // 复用 Text Fiber
-        newFiber = createWorkInProgress(old, null);
-        if (old.stateNode && (old.stateNode as Text).data !== String(child)) {
-          newFiber.flags |= Flags.Update; newFiber.pendingProps = String(child);
-        }
+        newFiber = createWorkInProgress(old, String(child));
+        if (old.memoizedProps !== String(child)) newFiber.flags |= Flags.Update;
       } else {
         newFiber = createFiber(FiberTag.Text, String(child), null);
         newFiber.flags |= Flags.Placement;
+        if (old) deleteChild(old); // 类型不同：旧 fiber 无法复用
       }
     } else { // VNode
-      if (old && old.type === child.type && old.key === child.key) {
+      if (old && canReuseFiber(old, child) && old.key === child.key) {
         const newPending = wrapProps(child);
         newFiber = createWorkInProgress(old, newPending);
         newFiber.type = child.type;
         if (!shallowEqual(old.memoizedProps, newPending)) newFiber.flags |= Flags.Update;
       } else {
         const wProps = wrapProps(child);
-        const tag = child.__isFragment ? FiberTag.Fragment : (typeof child.type === 'function' ? FiberTag.FunctionComponent : FiberTag.HostComponent);
-        newFiber = createFiber(tag, wProps, child.key);
-        newFiber.type = child.__isFragment ? null : child.type;
+        newFiber = createFiber(getFiberTag(child), wProps, child.key);
+        newFiber.type = child.type;
         newFiber.flags |= Flags.Placement;
+        if (old) deleteChild(old); // type / key 不同：旧 fiber 无法复用
       }
     }
     if (old) old = old.sibling; // 线性前进
     newFiber.return = returnFiber;
+    inheritMode(newFiber, returnFiber);
     if (!prevNew) returnFiber.child = newFiber; else prevNew.sibling = newFiber;
     prevNew = newFiber;
   }
+  if (prevNew) prevNew.sibling = null;
   // 多余旧 fiber 标记删除
-  while (old) { old.flags |= Flags.Deletion; pushEffect(old); old = old.sibling; }
+  while (old) { deleteChild(old); old = old.sibling; }
+}
+// 子 fiber 继承父 fiber 的模式位；StrictMode / Profiler 节点为其子树加上自身对应的位（复用的 fiber 重新计算结果相同）
+function inheritMode(fiber: FiberNode, returnFiber: FiberNode) {
+  fiber.mode = returnFiber.mode;
+  if (fiber.tag === FiberTag.Mode) fiber.mode |= FiberMode.StrictMode;
+  else if (fiber.tag === FiberTag.Profiler) fiber.mode |= FiberMode.ProfileMode;
+}
+function deleteChild(old: FiberNode) {
+  old.flags = Flags.Deletion; // 覆盖上次提交残留的 flags（如 Ref / Placement），删除只执行 Deletion
+  pushEffect(old);
 }
 
 // ======================== completeWork：构建 DOM / 收集 flags =========
 function completeWork(fiber: FiberNode) {
   switch (fiber.tag) {
     case FiberTag.HostComponent:
+      // ref 新增或变更：提交阶段重新挂载
+      if ((fiber.pendingProps?.ref ?? null) !== (fiber.alternate?.memoizedProps?.ref ?? null)) fiber.flags |= Flags.Ref;
+      const root = executingRoot!;
+      const hydration = fiber.alternate ? null : root.hydration;
       if (!fiber.stateNode) {
-        const el = document.createElement(fiber.type);
-        fiber.stateNode = el;
-        // 初次：设置所有 props
-        updateHostComponentProps(el, {}, fiber.pendingProps || {});
+        // 初次：创建节点并设置所有 props（尚未挂载，Placement 时插入）
+        fiber.stateNode = root.host.createInstance(fiber.type, fiber.pendingProps || {}, root.container, fiber);
+      } else if (hydration && !hydration.skipRoot) {
+        // hydration 认领的节点：属性以客户端为准补齐（含事件绑定）
+        root.host.hydrateInstance?.(fiber.stateNode, fiber.pendingProps || {}, fiber);
       }
+      if (hydration) popHydrationState(hydration, fiber);
       fiber.memoizedProps = fiber.pendingProps;
       bubbleEffects(fiber);
       break;
     case FiberTag.Text:
-      if (!fiber.stateNode) {
-        fiber.stateNode = document.createTextNode(fiber.pendingProps);
-      } else if (fiber.flags & Flags.Update) {
-        (fiber.stateNode as Text).data = fiber.pendingProps;
+      // 文本变化（Update）在 commit 阶段经 host.commitTextUpdate 写入
+      if (!fiber.stateNode) fiber.stateNode = executingRoot!.host.createTextInstance(String(fiber.pendingProps), executingRoot!.container);
+      fiber.memoizedProps = fiber.pendingProps;
+      bubbleEffects(fiber);
+      break;
+    case FiberTag.FunctionComponent: {
+      // 收集 effect：只要本组件 hooks 中有首次或依赖变化的 effect，就将该函数组件 Fiber 放入待处理队列
+      // 在 completeWork 中收集，保证子组件的 effect 先于父组件执行（useImperativeHandle 对父组件可见）
+      const hooks = fiber.hooks || [];
+      for (const h of hooks){
+        if (h && h.__type==='effect' && (h.firstRun || h.depsChanged)) { pushEffectFiber(fiber); break; }
       }
+      fiber.memoizedProps = fiber.pendingProps;
       bubbleEffects(fiber);
       break;
-    case FiberTag.FunctionComponent:
+    }
+    case FiberTag.ClassComponent: {
+      if ((fiber.pendingProps?.ref ?? null) !== (fiber.alternate?.memoizedProps?.ref ?? null)) fiber.flags |= Flags.Ref;
+      // 生命周期 / setState 回调与 layout effect 同一队列：按 completeWork 顺序（子先于父）执行
+      const root = executingRoot;
+      if (root && ((fiber.flags & Flags.Lifecycle) || fiber.updateQueue?.callbacks) && !root.pendingLayoutEffects.includes(fiber)) {
+        root.pendingLayoutEffects.push(fiber);
+      }
+      fiber.memoizedProps = fiber.pendingProps;
       bubbleEffects(fiber);
       break;
+    }
     case FiberTag.HostRoot:
+      if (executingRoot?.hydration) popHydrationState(executingRoot.hydration, fiber);
+      fiber.memoizedProps = fiber.pendingProps;
       bubbleEffects(fiber);
       break;
     case FiberTag.Fragment:
       bubbleEffects(fiber); // 不创建 DOM
       break;
+    case FiberTag.Mode:
+      fiber.memoizedProps = fiber.pendingProps;
+      bubbleEffects(fiber);
+      break;
+    case FiberTag.Profiler: {
+      fiber.memoizedProps = fiber.pendingProps;
+      bubbleEffects(fiber);
+      // 子树本次有 fiber 重新 render（不是整体 bailout）：提交后在 layout 阶段回调 onRender
+      const root = executingRoot;
+      const didRender = !fiber.alternate || fiber.child !== fiber.alternate.child;
+      if (root && didRender && !root.pendingLayoutEffects.includes(fiber)) root.pendingLayoutEffects.push(fiber);
+      break;
+    }
+    case FiberTag.ContextProvider:
+      popProvider(fiber);
+      fiber.memoizedProps = fiber.pendingProps;
+      bubbleEffects(fiber);
+      break;
+    case FiberTag.ErrorBoundary:
+    case FiberTag.SuspenseComponent:
+      fiber.memoizedProps = fiber.pendingProps;
+      fiber.unwindSnapshot = undefined;
+      bubbleEffects(fiber);
+      break;
+    case FiberTag.Offscreen:
+    case FiberTag.HostPortal:
+      // portal 容器首次挂载：宿主准备容器（DOM 注册委托事件监听，幂等）
+      if (fiber.tag === FiberTag.HostPortal && !fiber.alternate) executingRoot!.host.prepareContainer?.(fiber.stateNode);
+      if (executingRoot?.hydration?.skipRoot === fiber) executingRoot.hydration.skipRoot = null;
+      fiber.memoizedProps = fiber.pendingProps;
+      bubbleEffects(fiber);
+      break;
   }
   // 有自身副作用则放入 effect list
-  if (fiber.flags & (Flags.Placement | Flags.Update | Flags.Deletion)) pushEffect(fiber);
+  if (fiber.flags & (Flags.Placement | Flags.Update | Flags.Deletion | Flags.Visibility | Flags.Ref)) pushEffect(fiber);
 }
 
 // 向上聚合 subtreeFlags（当前仅统计，可用于未来快速跳过无副作用子树）
 function bubbleEffects(fiber: FiberNode) {
   let subtree = Flags.NoFlags;
+  let childLanes = Lanes.NoLanes;
   let child = fiber.child;
   while (child) {
     subtree |= child.subtreeFlags | child.flags;
+    // 子树仍待处理的 lanes（被跳过的更新 / 未进入的隐藏子树）汇总到父节点，供下次 bailout 判断
+    childLanes |= child.lanes | child.childLanes;
     child = child.sibling;
   }
   fiber.subtreeFlags = subtree;
+  fiber.childLanes = childLanes;
 }
 
 // ======================== effect list 构建 =============================
 function pushEffect(fiber: FiberNode) {
+  const root = executingRoot;
   if (!root) return;
   if (!root.firstEffect) root.firstEffect = fiber; else (root.lastEffect as FiberNode).effectNext = fiber;
   root.lastEffect = fiber;
 }
 
 // ----------------- 记录有 layout/passive effect 的函数组件 fiber -------
-const pendingLayoutEffects: FiberNode[] = []; // 同步执行
-const pendingPassiveEffects: FiberNode[] = []; // 异步批量
-let passiveFlushScheduled = false; // 防抖标记
+// 待执行队列挂在各自的 FiberRoot 上（pendingLayoutEffects / pendingPassiveEffects）
 let passiveFlushId = 0;            // flush 批次 id
 function pushEffectFiber(fiber: FiberNode){
-  if (fiber.hooks){
+  const root = executingRoot;
+  if (root && fiber.hooks){
+    const { pendingLayoutEffects, pendingPassiveEffects } = root;
     let hasLayout = false; let hasPassive = false;
     for (const h of fiber.hooks){
       if (!h || h.__type!=='effect') continue;
@@ -448,35 +1293,108 @@ function pushEffectFiber(fiber: FiberNode){
 }
 
 // ======================== layout effects 同步执行 ======================
-function flushLayoutEffects(){
+// 返回执行中抛出的错误，由调用方在提交结束后交给错误边界
+function flushLayoutEffects(root: FiberRoot): Array<{ fiber: FiberNode; error: any }> {
+  const { pendingLayoutEffects } = root;
+  const errors: Array<{ fiber: FiberNode; error: any }> = [];
   let fiberCount=0, effectCount=0;
   for (const fiber of pendingLayoutEffects){
     fiberCount++;
+    if (fiber.tag === FiberTag.ClassComponent) { commitClassLayoutLifecycles(fiber, errors); continue; }
+    if (fiber.tag === FiberTag.Profiler) { commitProfilerUpdate(root, fiber, errors); continue; }
     const hooks = fiber.hooks || [];
     for (const h of hooks){
       if(!h || h.__type!=='effect' || h.kind!=='layout') continue;
       if (h.firstRun || h.depsChanged){
         effectCount++;
-        if (!h.firstRun && h.destroy){ try{ h.destroy(); }catch(e){ console.error('layout destroy error', e); } }
+        if (!h.firstRun && h.destroy){ try{ h.destroy(); }catch(e){ errors.push({ fiber, error: e }); } }
         let destroy:any; let threw=false;
-        try { destroy = h.create(); } catch(e){ threw=true; console.error('layout create error', e); }
+        try { destroy = h.create(); } catch(e){ threw=true; errors.push({ fiber, error: e }); }
         h.destroy = typeof destroy === 'function' ? destroy : null;
-        h.firstRun = false; h.depsChanged = false;
         if (threw) h.destroy = null;
+        else if (h.firstRun && isStrictEffectsFiber(fiber)) reinvokeEffectOnMount(fiber, h, errors);
+        h.firstRun = false; h.depsChanged = false;
       }
     }
   }
   if (fiberCount || effectCount) debugLog('flush layout effects', { fibers:fiberCount, effects:effectCount });
   pendingLayoutEffects.length = 0;
+  return errors;
+}
+
+// StrictMode（开发模式）：新挂载的 effect 立即 destroy 再 create 一次，模拟卸载后重新挂载，暴露缺少清理的副作用
+function isStrictEffectsFiber(fiber: FiberNode) {
+  return debugConfig.dev && !!(fiber.mode & FiberMode.StrictMode);
+}
+function reinvokeEffectOnMount(fiber: FiberNode, h: any, errors: Array<{ fiber: FiberNode; error: any }>) {
+  if (h.destroy) {
+    try { h.destroy(); } catch(e){ errors.push({ fiber, error: e }); }
+    h.destroy = null;
+  }
+  let destroy:any;
+  try { destroy = h.create(); } catch(e){ errors.push({ fiber, error: e }); return; }
+  h.destroy = typeof destroy === 'function' ? destroy : null;
+}
+
+// Profiler：子树的 layout effect 已先于其执行（pendingLayoutEffects 按 completeWork 顺序）
+function commitProfilerUpdate(root: FiberRoot, fiber: FiberNode, errors: Array<{ fiber: FiberNode; error: any }>) {
+  const { id, onRender } = fiber.memoizedProps as ProfilerProps;
+  if (typeof onRender !== 'function') return;
+  try {
+    onRender(id, fiber.alternate ? 'update' : 'mount', fiber.actualDuration, fiber.treeBaseDuration, root.renderStartTime, root.commitStartTime, root.committedLanes);
+  } catch(e){ errors.push({ fiber, error: e }); }
+}
+
+// ======================== 类组件生命周期 ==============================
+// getSnapshotBeforeUpdate 的返回值：mutation 前记录，componentDidUpdate 时取出
+const classSnapshots = new WeakMap<object, any>();
+
+// before mutation：DOM 仍为旧内容（需要 Snapshot 的类组件都已在 layout 队列中）
+function commitBeforeMutationLifecycles(root: FiberRoot): Array<{ fiber: FiberNode; error: any }> {
+  const errors: Array<{ fiber: FiberNode; error: any }> = [];
+  for (const fiber of root.pendingLayoutEffects) {
+    if (fiber.tag !== FiberTag.ClassComponent || !(fiber.flags & Flags.Snapshot)) continue;
+    const current = fiber.alternate!;
+    try { classSnapshots.set(fiber.stateNode, fiber.stateNode.getSnapshotBeforeUpdate(current.memoizedProps, current.memoizedState)); }
+    catch(e){ errors.push({ fiber, error: e }); }
+  }
+  return errors;
+}
+
+// layout：componentDidMount / componentDidUpdate，随后执行本次处理过的 setState 回调
+function commitClassLayoutLifecycles(fiber: FiberNode, errors: Array<{ fiber: FiberNode; error: any }>) {
+  const instance = fiber.stateNode as Component;
+  const current = fiber.alternate;
+  if (fiber.flags & Flags.Lifecycle) {
+    try {
+      if (!current) instance.componentDidMount?.();
+      else {
+        const snapshot = classSnapshots.get(instance);
+        classSnapshots.delete(instance);
+        instance.componentDidUpdate?.(current.memoizedProps, current.memoizedState, snapshot);
+      }
+    } catch(e){ errors.push({ fiber, error: e }); }
+  }
+  const queue = fiber.updateQueue;
+  const callbacks = queue?.callbacks;
+  if (!queue || !callbacks) return;
+  queue.callbacks = null; // 队列随 fiber 沿用到之后的 render，执行后清空，避免重复调用
+  for (const callback of callbacks) {
+    try { callback.call(instance); } catch(e){ errors.push({ fiber, error: e }); }
+  }
 }
 
 // ======================== passive effects 异步批处理 ==================
-function flushPassiveEffects(){
-  if (!pendingPassiveEffects.length) { passiveFlushScheduled = false; return; }
+function flushPassiveEffects(root: FiberRoot){
+  root.passiveFlushScheduled = false;
+  if (!root.pendingPassiveEffects.length) return;
+  // 取出快照后再执行：effect 内 setState 触发的新一轮渲染不会重复处理本批次
+  const pendingPassiveEffects = root.pendingPassiveEffects.splice(0);
+  const errors: Array<{ fiber: FiberNode; error: any }> = [];
   const batchId = ++passiveFlushId;
-  const start = performance.now();
+  const start = root.host.now();
   let fibers=0, destroyCount=0, createCount=0;
-  if (debugConfig.effect.logPassive) debugLog('passive phase (destroy)', { batch:batchId, pending:persistentPassiveCountSnapshot() });
+  if (debugConfig.effect.logPassive) debugLog('passive phase (destroy)', { batch:batchId, pending:persistentPassiveCountSnapshot(pendingPassiveEffects) });
   // 1. destroy 阶段（保证先清理旧资源）
   for (const fiber of pendingPassiveEffects){
     fibers++;
@@ -485,7 +1403,7 @@ function flushPassiveEffects(){
       if (!h || h.__type !== 'effect' || h.kind!=='passive') continue;
       if ((h.firstRun || h.depsChanged) && !h.firstRun && h.destroy){
         destroyCount++;
-        try { h.destroy(); } catch(e){ console.error('passive destroy error', e); }
+        try { h.destroy(); } catch(e){ errors.push({ fiber, error: e }); }
         h.destroy = null;
       }
     }
@@ -498,25 +1416,34 @@ function flushPassiveEffects(){
       if (!h || h.__type !== 'effect' || h.kind!=='passive') continue;
       if (h.firstRun || h.depsChanged){
         let destroy:any; let threw=false;
-        try { destroy = h.create(); createCount++; } catch(e){ threw=true; console.error('passive create error', e); }
+        try { destroy = h.create(); createCount++; } catch(e){ threw=true; errors.push({ fiber, error: e }); }
         h.destroy = typeof destroy === 'function' ? destroy : null;
-        h.firstRun = false; h.depsChanged = false;
         if (threw) h.destroy = null;
+        else if (h.firstRun && isStrictEffectsFiber(fiber)) reinvokeEffectOnMount(fiber, h, errors);
+        h.firstRun = false; h.depsChanged = false;
       }
     }
   }
-  pendingPassiveEffects.length = 0;
-  passiveFlushScheduled = false;
-  if (debugConfig.effect.logPassive) debugLog('flush passive effects', { batch:batchId, fibers, destroy:destroyCount, create:createCount, duration: +(performance.now()-start).toFixed(2)+'ms' });
+  if (debugConfig.effect.logPassive) debugLog('flush passive effects', { batch:batchId, fibers, destroy:destroyCount, create:createCount, duration: +(root.host.now()-start).toFixed(2)+'ms' });
+  // 3. 执行中抛出的错误交给最近的错误边界
+  for (const { fiber, error } of errors) captureCommitPhaseError(root, fiber, error);
 }
 // 统计待执行 passive count（调试用）
-function persistentPassiveCountSnapshot(){
-  let count=0; for (const f of pendingPassiveEffects){ if(!f.hooks) continue; for (const h of f.hooks) if(h && h.__type==='effect' && h.kind==='passive' && (h.firstRun || h.depsChanged)) count++; }
+function persistentPassiveCountSnapshot(fibers: FiberNode[]){
+  let count=0; for (const f of fibers){ if(!f.hooks) continue; for (const h of f.hooks) if(h && h.__type==='effect' && h.kind==='passive' && (h.firstRun || h.depsChanged)) count++; }
   return count;
 }
 
 // ======================== unmount cleanup 顺序策略 ====================
 function runPassiveCleanupOnFiber(fiber: FiberNode){
+  // 被删除的 host 节点：ref 置 null
+  if (fiber.tag === FiberTag.HostComponent && fiber.memoizedProps?.ref) safelySetRef(fiber.memoizedProps.ref, null);
+  if (fiber.tag === FiberTag.ClassComponent && fiber.stateNode) {
+    const instance = fiber.stateNode as Component;
+    if (fiber.memoizedProps?.ref) safelySetRef(fiber.memoizedProps.ref, null);
+    detachClassInstance(instance);
+    try { instance.componentWillUnmount?.(); } catch(e){ console.error('componentWillUnmount error', e); }
+  }
   if (fiber.tag === FiberTag.FunctionComponent && fiber.hooks){
     for (const h of fiber.hooks){
       if (h && h.__type==='effect' && h.destroy){
@@ -537,72 +1464,170 @@ function cleanupPassiveEffects(fiber: FiberNode){
 }
 
 // ======================== 提交阶段 commitRoot ========================
-function commitRoot(finished: FiberNode | null) {
-  if (!root) return;
-  // 1. 遍历 effect list 执行 Placement / Update / Deletion
+function commitRoot(root: FiberRoot, finished: FiberNode | null) {
+  executingRoot = root;
+  root.commitStartTime = root.host.now();
+  // 0. hydration 完成：移除未被认领 / 不一致的服务端节点，此后按普通 root 更新
+  if (root.hydration) {
+    for (const { parent, node } of root.hydration.deletions) root.host.removeChild(parent, node);
+    root.hydration = null;
+    root.isDehydrated = false;
+  }
+  // DevTools：Placement 标记在 mutation 中清除，需提前记录本次变化的宿主节点（未安装 hook 时跳过）
+  const devToolsChanges = isDevToolsActive(root) ? collectChangedHostNodes(root.firstEffect) : null;
+  // 1. before mutation：类组件 getSnapshotBeforeUpdate（DOM 仍为旧内容）
+  const beforeMutationErrors = commitBeforeMutationLifecycles(root);
+  // 2. 遍历 effect list 执行 Placement / Update / Deletion
   let effect = root.firstEffect;
   while (effect) {
     commitEffect(effect);
     effect = effect.effectNext;
   }
-  // 2. 切换 current 树
+  // 3. 挂载 ref（DOM 已就位，早于 layout effect，保证 useLayoutEffect 中可读取 ref.current）
+  effect = root.firstEffect;
+  while (effect) {
+    if (effect.flags & Flags.Ref) commitAttachRef(effect);
+    effect = effect.effectNext;
+  }
+  // 4. 切换 current 树
   if (finished) root.current = finished;
-  // 3. 清空 effect list
+  // 5. 清空 effect list
   root.firstEffect = root.lastEffect = null;
-  // 4. 执行 layout effects
-  try { flushLayoutEffects(); } catch(e){ console.error('flushLayoutEffects error', e); }
-  // 5. 调度 passive effects（异步）
-  if (pendingPassiveEffects.length && !passiveFlushScheduled){
-    schedulePassiveFlush();
+  // 6. 执行 layout effects（含类组件 componentDidMount / componentDidUpdate / setState 回调）
+  let layoutErrors: Array<{ fiber: FiberNode; error: any }> = [];
+  try { layoutErrors = flushLayoutEffects(root); } catch(e){ console.error('flushLayoutEffects error', e); }
+  executingRoot = null;
+  // 7. 调度 passive effects（异步）
+  if (root.pendingPassiveEffects.length && !root.passiveFlushScheduled){
+    schedulePassiveFlush(root);
+  }
+  // 8. 通知 DevTools（layout effects 之后：快照包含其中同步产生的 ref / state 读数）
+  if (devToolsChanges) {
+    try { notifyCommitRoot(root, devToolsChanges); } catch(e){ console.error('devtools notify error', e); }
   }
+  // 9. 回调本次 render 中被边界捕获的错误；before mutation / layout 阶段的错误交给错误边界（重新调度渲染）
+  root.caughtErrors.splice(0).forEach(reportCaughtError);
+  for (const { fiber, error } of beforeMutationErrors.concat(layoutErrors)) captureCommitPhaseError(root, fiber, error);
 }
-function schedulePassiveFlush(){
-  if (passiveFlushScheduled) return;
-  passiveFlushScheduled = true;
+function schedulePassiveFlush(root: FiberRoot){
+  if (root.passiveFlushScheduled) return;
+  root.passiveFlushScheduled = true;
   const schedule = debugConfig.effect.passiveFlushMode === 'micro'
-    ? (fn:Function)=>Promise.resolve().then(()=>fn())
-    : (fn:Function)=>setTimeout(()=>fn(),0);
-  schedule(()=>{ try { flushPassiveEffects(); } catch(e){ console.error('flushPassiveEffects error', e); } });
+    ? (fn:()=>void)=>root.host.scheduleMicrotask(fn)
+    : (fn:()=>void)=>root.host.scheduleTimeout(fn,0);
+  schedule(()=>{
+    if (!root.passiveFlushScheduled) return; // 已在下一次渲染开始前提前 flush
+    try { flushPassiveEffects(root); } catch(e){ console.error('flushPassiveEffects error', e); }
+  });
 }
 
 // ======================== 单个 effect 处理 ============================
 function commitEffect(fiber: FiberNode) {
-  if (fiber.flags & Flags.Placement) commitPlacement(fiber);
+  if (fiber.flags & Flags.Ref) commitDetachRef(fiber);
+  if (fiber.flags & Flags.Placement) {
+    commitPlacement(fiber);
+    // 已插入：清除标记。bailout 子树中沿用的已提交 fiber 不会重置 flags，getHostSibling 需据此把它们视为已就位的锚点
+    fiber.flags &= ~Flags.Placement;
+  }
   if (fiber.flags & Flags.Update) commitUpdate(fiber);
   if (fiber.flags & Flags.Deletion) commitDeletion(fiber);
+  if (fiber.flags & Flags.Visibility) hideOrUnhideAllChildren(fiber, fiber.memoizedProps?.mode === 'hidden');
+}
+
+// ref 变更：先将旧 ref 置 null（mutation 阶段），新 ref 在 mutation 全部完成后挂载
+function commitDetachRef(fiber: FiberNode) {
+  const oldRef = fiber.alternate?.memoizedProps?.ref;
+  if (oldRef) safelySetRef(oldRef, null);
+}
+function commitAttachRef(fiber: FiberNode) {
+  const ref = fiber.memoizedProps?.ref;
+  if (ref && (fiber.tag === FiberTag.HostComponent || fiber.tag === FiberTag.ClassComponent)) safelySetRef(ref, fiber.stateNode);
+}
+function safelySetRef(ref: any, value: any) {
+  try { setRef(ref, value); } catch(e){ console.error('ref callback error', e); }
 }
 
-// 找到祖先 Host DOM（用于插入/删除）
-function findHostParent(fiber: FiberNode): HTMLElement | null {
+// Offscreen 显隐切换：只处理子树中最顶层的 host 节点（元素隐藏 / 文本清空，具体方式由 host 决定）
+function hideOrUnhideAllChildren(fiber: FiberNode, hidden: boolean) {
+  const host = executingRoot!.host;
+  let child = fiber.child;
+  while (child) {
+    if (child.tag === FiberTag.HostComponent) {
+      if (hidden) host.hideInstance(child.stateNode);
+      else host.unhideInstance(child.stateNode, child.memoizedProps || {});
+    } else if (child.tag === FiberTag.Text) {
+      if (hidden) host.hideTextInstance(child.stateNode);
+      else host.unhideTextInstance(child.stateNode, child.memoizedProps ?? '');
+    } else {
+      hideOrUnhideAllChildren(child, hidden);
+    }
+    child = child.sibling;
+  }
+}
+
+// 找到祖先宿主节点（用于插入/删除）：HostComponent 实例、root 容器或 portal 容器
+function findHostParent(fiber: FiberNode): any {
   let parent = fiber.return;
   while (parent) {
     if (parent.tag === FiberTag.HostComponent) return parent.stateNode;
-    if (parent.tag === FiberTag.HostRoot) return parent.stateNode;
+    if (parent.tag === FiberTag.HostRoot) return (parent.stateNode as FiberRoot).container;
+    if (parent.tag === FiberTag.HostPortal) return parent.stateNode;
     parent = parent.return;
   }
   return null;
 }
 
-// 插入（深度遍历找到所有 host 节点追加）
+function isHostParent(fiber: FiberNode) {
+  return fiber.tag === FiberTag.HostComponent || fiber.tag === FiberTag.HostRoot || fiber.tag === FiberTag.HostPortal;
+}
+
+// 找到 fiber 之后第一个「已稳定在 DOM 中」的 host 兄弟节点，作为 insertBefore 的锚点
+// - 向右查找兄弟；没有兄弟则向上回溯（直到遇到 host 父节点为止）
+// - 兄弟为 FunctionComponent / Fragment 时向下找其第一个 host 后代（Portal 子树的节点在别的容器中，跳过）
+// - 自身也带 Placement 的节点尚未就位（或即将移动），不能作为锚点，跳过
+function getHostSibling(fiber: FiberNode): any {
+  let node: FiberNode = fiber;
+  siblings: while (true) {
+    while (!node.sibling) {
+      if (!node.return || isHostParent(node.return)) return null;
+      node = node.return;
+    }
+    node = node.sibling;
+    while (node.tag !== FiberTag.HostComponent && node.tag !== FiberTag.Text) {
+      if (node.flags & Flags.Placement) continue siblings;
+      if (!node.child || node.tag === FiberTag.HostPortal) continue siblings;
+      node = node.child;
+    }
+    if (!(node.flags & Flags.Placement)) return node.stateNode;
+  }
+}
+
+// 插入 / 移动：定位锚点后 insertBefore；非 host 节点（函数组件 / Fragment）按顺序插入其顶层 host 后代
 function commitPlacement(fiber: FiberNode) {
   const parentDom = findHostParent(fiber);
   if (!parentDom) return;
+  const before = getHostSibling(fiber);
+  insertOrAppendPlacementNode(executingRoot!.host, fiber, before, parentDom);
+}
+function insertOrAppendPlacementNode(host: HostConfig, fiber: FiberNode, before: any, parentDom: any) {
   if (fiber.tag === FiberTag.HostComponent || fiber.tag === FiberTag.Text) {
-    parentDom.appendChild(fiber.stateNode);
-  } else {
+    if (before) host.insertBefore(parentDom, fiber.stateNode, before);
+    else host.appendChild(parentDom, fiber.stateNode);
+  } else if (fiber.tag !== FiberTag.HostPortal) { // Portal 子节点由各自的 Placement 插入 portal 容器
     let child = fiber.child;
-    while (child) { commitPlacement(child); child = child.sibling; }
+    while (child) { insertOrAppendPlacementNode(host, child, before, parentDom); child = child.sibling; }
   }
 }
 
-// 更新（HostComponent 重新 diff props）
+// 更新（HostComponent 重新 diff props / Text 写入新文本）
 function commitUpdate(fiber: FiberNode) {
+  const host = executingRoot!.host;
   if (fiber.tag === FiberTag.HostComponent) {
-    const dom = fiber.stateNode as HTMLElement;
-    updateHostComponentProps(dom, fiber.alternate?.memoizedProps || {}, fiber.pendingProps || {});
+    host.commitUpdate(fiber.stateNode, fiber.alternate?.memoizedProps || {}, fiber.pendingProps || {}, fiber);
     fiber.memoizedProps = fiber.pendingProps;
+  } else if (fiber.tag === FiberTag.Text) {
+    host.commitTextUpdate(fiber.stateNode, fiber.alternate?.memoizedProps ?? '', String(fiber.memoizedProps));
   }
-  // Text 文本已在 completeWork 中直接写入
 }
 
 // 删除：执行 cleanup -> 移除所有 host 节点
@@ -612,77 +1637,31 @@ function commitDeletion(fiber: FiberNode) {
   if (!parentDom) return;
   removeHostNodes(fiber, parentDom);
 }
-function removeHostNodes(fiber: FiberNode, parentDom: HTMLElement) {
+function removeHostNodes(fiber: FiberNode, parentDom: any) {
   if (fiber.tag === FiberTag.HostComponent || fiber.tag === FiberTag.Text) {
-    if (fiber.stateNode && parentDom.contains(fiber.stateNode)) parentDom.removeChild(fiber.stateNode);
+    if (fiber.stateNode) executingRoot!.host.removeChild(parentDom, fiber.stateNode);
+    // 移除 host 节点会带走其子树，但嵌套在其中的 Portal 内容在别的容器里，需单独移除
+    if (fiber.tag === FiberTag.HostComponent) removeNestedPortals(fiber);
+  } else if (fiber.tag === FiberTag.HostPortal) {
+    // Portal 子树的 host 节点从 portal 容器中移除
+    let child = fiber.child; while (child) { removeHostNodes(child, fiber.stateNode); child = child.sibling; }
   } else {
     let child = fiber.child; while (child) { removeHostNodes(child, parentDom); child = child.sibling; }
   }
 }
 
-// ======================== DOM 属性 / 事件 Diff ========================
-function updateHostComponentProps(el: HTMLElement, oldProps: any, newProps: any) {
-  // 先处理 style 对象：转换为行内样式 diff
-  function applyStylePatch(oldStyle: any, newStyle: any) {
-    if (!oldStyle && !newStyle) return;
-    const style = (el as any).style; if (!style) return;
-    oldStyle = oldStyle || {}; newStyle = newStyle || {};
-    // 移除
-    for (const k in oldStyle) { if (!(k in newStyle)) { style[k] = ''; } }
-    // 添加或更新
-    for (const k in newStyle) { if (oldStyle[k] !== newStyle[k]) { style[k] = newStyle[k]; } }
-  }
-  const oldStyle = oldProps?.style && typeof oldProps.style === 'object' ? oldProps.style : null;
-  const newStyle = newProps?.style && typeof newProps.style === 'object' ? newProps.style : null;
-  // style 对象 diff
-  if (oldStyle || newStyle) applyStylePatch(oldStyle, newStyle);
-  // 新增：支持 style 传入字符串（JSX 中 style="..."），旧实现会直接跳过导致样式不生效
-  const oldStyleStr = typeof oldProps?.style === 'string' ? oldProps.style : null;
-  const newStyleStr = typeof newProps?.style === 'string' ? newProps.style : null;
-  if (oldStyleStr && !newStyleStr) { // 从字符串移除
-    el.removeAttribute('style');
-  }
-  if (newStyleStr) {
-    if (oldStyleStr !== newStyleStr) {
-      // 直接覆盖（与 React 不同，这里简单实现，无需 diff）
-      el.setAttribute('style', newStyleStr);
-    }
-  }
-  // 若从 字符串 -> 对象，前面对象 diff 已应用，需要确保不残留旧字符串：已在旧字符串存在且新不是字符串时 removeAttribute 处理
-
-  // 移除旧属性/事件
-  for (const key in oldProps) {
-    if (key === 'children' || key === 'key' || key === 'style') continue;
-    if (!(key in newProps)) {
-      if (/^on[A-Z]/.test(key)) {
-        const evt = key.slice(2).toLowerCase();
-        el.removeEventListener(evt, oldProps[key]);
-      } else {
-        (el as any)[key] !== undefined ? (el as any)[key] = '' : el.removeAttribute(key);
-      }
-    }
-  }
-  // 添加 / 更新
-  for (const key in newProps) {
-    if (key === 'children' || key === 'key' || key === 'style') continue;
-    const next = newProps[key]; const prev = oldProps[key];
-    if (prev === next) continue;
-    if (/^on[A-Z]/.test(key)) {
-      const evt = key.slice(2).toLowerCase();
-      if (prev) el.removeEventListener(evt, prev);
-      el.addEventListener(evt, next);
-    } else if ((el as any)[key] !== undefined) {
-      (el as any)[key] = next;
-    } else {
-      el.setAttribute(key, next);
-    }
+function removeNestedPortals(fiber: FiberNode) {
+  let child = fiber.child;
+  while (child) {
+    if (child.tag === FiberTag.HostPortal) removeHostNodes(child, child.stateNode);
+    else removeNestedPortals(child);
+    child = child.sibling;
   }
 }
 
 // ======================== 并发渲染（Phase5） ==========================
 // 高优 (user-blocking / high) -> 同步；低优 -> 分片 + 可中断
-let isRenderingConcurrent = false;
-let currentWipRoot: FiberNode | null = null;
+// 每个 root 各自维护 workInProgress / isRenderingConcurrent，分片回调按 root 独立调度
 const FRAME_BUDGET = 5; // 单帧时间片预算 (ms)
 
 // lane 优先级枚举顺序（从高到低）
@@ -690,6 +1669,7 @@ const LanePriorityOrder = [
   1 << 0, // UserBlockingLane
   1 << 1, // HighLane
   1 << 2, // NormalLane
+  1 << 5, // TransitionLane
   1 << 3, // LowLane
   1 << 4  // IdleLane
 ];
@@ -697,90 +1677,187 @@ function getHighestPriorityLane(lanes:number){
   for(const l of LanePriorityOrder){ if(lanes & l) return l; }
   return 0;
 }
+function isHigherPriorityLane(a:number, b:number){
+  return LanePriorityOrder.indexOf(a) < LanePriorityOrder.indexOf(b);
+}
 function isSyncLane(lane:number){
   return lane === (1<<0) || lane === (1<<1); // 两个高优级同步
 }
 
 let frameStart = 0;
-function shouldYield(deadline?:any){
+function shouldYield(root: FiberRoot, deadline?: IdleDeadlineLike){
   if (deadline && typeof deadline.timeRemaining === 'function') {
     if (deadline.timeRemaining() <= 0) return true;
   }
-  return (performance.now() - frameStart) >= FRAME_BUDGET;
+  return (root.host.now() - frameStart) >= FRAME_BUDGET;
 }
 
-function requestConcurrentCallback(){
-  if (typeof (window as any).requestIdleCallback === 'function') {
-    (window as any).requestIdleCallback(concurrentWorkLoop);
-  } else {
-    setTimeout(()=>concurrentWorkLoop({ timeRemaining:()=>0 }),1);
-  }
+function requestConcurrentCallback(root: FiberRoot){
+  root.host.scheduleIdleCallback(deadline => concurrentWorkLoop(root, deadline));
 }
 
-function startConcurrentWorkLoop(){
-  if (isRenderingConcurrent) return; // 已在进行
-  isRenderingConcurrent = true;
-  requestConcurrentCallback();
+function startConcurrentWorkLoop(root: FiberRoot){
+  if (root.isRenderingConcurrent) return; // 已在进行
+  root.isRenderingConcurrent = true;
+  requestConcurrentCallback(root);
 }
 
 // 并发循环：执行部分单元，时间片耗尽 -> 让出，直到构建完成
-function concurrentWorkLoop(deadline:any){
-  frameStart = performance.now();
-  while (workInProgress && !shouldYield(deadline)){
-    performUnitOfWork(workInProgress);
+function concurrentWorkLoop(root: FiberRoot, deadline: IdleDeadlineLike){
+  if (!root.isRenderingConcurrent) return; // 已被高优同步渲染打断 / 已卸载
+  frameStart = root.host.now();
+  executingRoot = root;
+  resumeContextStack(root);
+  try {
+    while (root.workInProgress && !shouldYield(root, deadline)){
+      try { performUnitOfWork(root, root.workInProgress); }
+      catch (thrown) { handleThrow(root, root.workInProgress, thrown); }
+    }
+  } finally {
+    suspendContextStack(root);
+    executingRoot = null;
   }
-  if (!workInProgress) {
+  if (!root.workInProgress) {
     // 完成 -> 提交
-    isRenderingConcurrent = false;
-    commitRoot(currentWipRoot);
+    root.isRenderingConcurrent = false;
+    // 撕裂：时间片之间外部 store 已变化，各组件读到的版本可能不同 -> 以同一 lanes 从根同步重新 render（不再让出）
+    if (!isRenderConsistentWithExternalStores(root)) {
+      if (debugConfig.schedule.log) debugLog('external store changed during concurrent render, re-render sync', { lanes: root.renderLanes });
+      prepareFreshStack(root);
+      workLoopSync(root);
+    }
+    finishRender(root);
   } else {
     // 未完成 -> 下一帧
-    requestConcurrentCallback();
+    requestConcurrentCallback(root);
   }
 }
 
 // 内部：根据 lane 选择同步或并发路径
-function renderRootConcurrentInternal(vnode: VNode, container: HTMLElement) {
-  if (!root) {
-    const hostRoot = createFiber(FiberTag.HostRoot, { children: [vnode] }, null);
-    hostRoot.stateNode = container;
-    root = { container, current: hostRoot, finishedWork: null, firstEffect: null, lastEffect: null };
-  }
-  // 每次更新：刷新 rootElement 与 root.current 的 pendingProps.children
-  rootElement = vnode;
-  root.current.pendingProps = { children: [vnode] };
-  const activeLanes = pendingLanes || (1<<2);
-  const highest = getHighestPriorityLane(activeLanes);
-  pendingLanes = Lanes.NoLanes;
-  workInProgress = createWorkInProgress(root.current, root.current.pendingProps);
-  currentWipRoot = workInProgress;
+function renderRootConcurrentInternal(root: FiberRoot) {
+  // 重新开始会丢弃未完成的 render：其 lanes（及更新计数）放回 pending，与新更新一起按优先级挑选
+  if (root.renderLanes) {
+    root.pendingLanes = mergeLanes(root.pendingLanes, root.renderLanes);
+    addUpdateCount(root, root.renderLanes, root.renderUpdateCount);
+  }
+  const highest = getHighestPriorityLane(root.pendingLanes || Lanes.NormalLane);
+  // 每次只处理最高优先级 lane；其余 lane 的更新在 hooks 中被跳过，提交后再调度
+  root.renderLanes = highest;
+  root.pendingLanes &= ~highest;
+  root.renderUpdateCount = root.pendingUpdateCounts.get(highest) || 0;
+  root.pendingUpdateCounts.delete(highest);
+  prepareFreshStack(root);
   if (isSyncLane(highest)) {
-    workLoopSync();
-    commitRoot(currentWipRoot);
+    root.isRenderingConcurrent = false;
+    workLoopSync(root);
+    finishRender(root);
   } else {
-    startConcurrentWorkLoop();
+    startConcurrentWorkLoop(root);
   }
 }
 
+// 以当前 renderLanes 从根开始一次新的 render（丢弃未完成的 WIP 及其收集的状态）
+function prepareFreshStack(root: FiberRoot) {
+  root.skippedLanes = Lanes.NoLanes;
+  clearMemoBailouts(root.renderMemoBailouts);
+  root.renderMemoBailouts = [];
+  root.storeConsistencyChecks.length = 0;
+  root.renderStartTime = root.host.now();
+  // 重新从根开始：丢弃上一次未完成构建可能残留的 effect list / 待执行 effect
+  root.firstEffect = root.lastEffect = null;
+  // 上一次提交尚未执行的 passive effects 先行 flush（与 React 一致），避免与本次渲染收集的混在一起
+  if (root.passiveFlushScheduled) flushPassiveEffects(root);
+  root.pendingLayoutEffects.length = 0;
+  root.pendingPassiveEffects.length = 0;
+  resetContextStack(root);
+  // hydration：每次（重新）开始首次 render 都从容器第一个子节点认领
+  root.hydration = root.isDehydrated ? { nextNode: root.host.getFirstHydratableChild!(root.container), skipRoot: null, deletions: [] } : null;
+  root.caughtErrors.length = 0;
+  root.fatalError = null;
+  root.workInProgress = createWorkInProgress(root.current, root.current.pendingProps);
+  root.wipRoot = root.workInProgress;
+}
+
 // ======================== 对外：调度根更新 ============================
-export function scheduleRootUpdate(lane?: number) {
-  if (debugConfig.schedule.log) debugLog('scheduleRootUpdate', { lane, pendingLanesBefore: pendingLanes });
-  if (lane != null) pendingLanes = mergeLanes(pendingLanes, lane);
-  // 若正在并发渲染且来高优更新 -> 直接打断放弃当前 WIP，转同步
-  if (isRenderingConcurrent) {
-    const highestIncoming = getHighestPriorityLane(pendingLanes);
-    if (isSyncLane(highestIncoming)) {
-      workInProgress = null; // 放弃当前构建
-      isRenderingConcurrent = false;
+// 批处理：更新只合并 lane 并登记 root，同一任务（事件回调 / 同步代码）内的多次更新
+// 在微任务中合并为一次 render + commit；flushSync 可立即同步处理
+const scheduledRoots = new Set<FiberRoot>();
+let flushScheduled = false;
+let deferredSyncFlush = false; // render / commit 中调用了 flushSync：推迟到本次提交结束后同步处理
+
+function addUpdateCount(root: FiberRoot, lane: number, count: number) {
+  if (count) root.pendingUpdateCounts.set(lane, (root.pendingUpdateCounts.get(lane) || 0) + count);
+}
+
+function scheduleUpdateOnRoot(root: FiberRoot, lane: number) {
+  if (debugConfig.schedule.log) debugLog('scheduleUpdateOnRoot', { lane, pendingLanesBefore: root.pendingLanes });
+  root.pendingLanes = mergeLanes(root.pendingLanes, lane);
+  addUpdateCount(root, lane, 1);
+  ensureRootScheduled(root);
+}
+
+function ensureRootScheduled(root: FiberRoot) {
+  scheduledRoots.add(root);
+  if (flushScheduled) return;
+  flushScheduled = true;
+  root.host.scheduleMicrotask(flushScheduledRoots);
+}
+
+function flushScheduledRoots() {
+  flushScheduled = false;
+  // 逐个取出：render / commit 中产生的新更新会重新登记，留给下一轮微任务
+  const roots = Array.from(scheduledRoots);
+  scheduledRoots.clear();
+  let firstError: unknown = null;
+  let hasError = false;
+  for (const root of roots) {
+    if (root.element == null || !root.pendingLanes) continue; // 已卸载 / 已被 flushSync 处理
+    if (root.isRenderingConcurrent) {
+      const incoming = getHighestPriorityLane(root.pendingLanes);
+      // 同级 / 更低优先级的更新不打断进行中的渲染：提交后 finishRender 会继续调度剩余 lanes
+      if (!isHigherPriorityLane(incoming, root.renderLanes)) continue;
+      // 若来高优同步更新 -> 直接打断放弃当前 WIP，转同步
+      if (isSyncLane(incoming)) {
+        root.workInProgress = null; // 放弃当前构建
+        root.isRenderingConcurrent = false;
+      }
+    }
+    // 某个 root 抛错不影响其余 root：复位 executingRoot 后继续，全部处理完再抛出第一个错误
+    try { renderRootConcurrentInternal(root); }
+    catch (e) {
+      executingRoot = null;
+      if (!hasError) { hasError = true; firstError = e; }
     }
   }
-  if (root && rootElement) {
-    try { renderRoot(rootElement, root.container); } catch(e){ console.error(e); }
-  } else {
-    // 初次：若外部还未调用 renderRoot 但已有 rootElement（理论上不走到）
-    if (rootElement && (rootElement as any).type && typeof document !== 'undefined') {
-      const containerEl = (root as any)?.container || document.getElementById('root');
-      if (containerEl) renderRoot(rootElement, containerEl as any);
+  if (hasError) throw firstError;
+}
+
+// render / layout effect 中调用的 flushSync：本次提交结束后同步处理其更新
+function flushDeferredSyncWork() {
+  if (!deferredSyncFlush) return;
+  deferredSyncFlush = false;
+  flushScheduledRoots();
+}
+
+// fiber：触发更新的 hook 所在 fiber，用于定位所属 root（只重新渲染该 root）
+export function scheduleRootUpdate(fiber: FiberNode, lane: number = requestUpdateLane()) {
+  const root = markUpdateLaneFromFiberToRoot(fiber, lane);
+  if (!root || root.element == null) return; // 已卸载 / 不属于任何 root
+  scheduleUpdateOnRoot(root, lane);
+}
+
+// flushSync：fn 内未指定优先级的更新使用同步 lane，返回前立即渲染并提交所有已登记的更新
+// （用于需要在更新后立刻读取 DOM 的场景，例如测量布局）
+// render / commit 期间（如 layout effect 中）调用时不能重入：警告并推迟到本次提交结束后处理
+export function flushSync<R>(fn?: () => R): R | undefined {
+  try {
+    return fn ? runWithUpdateLane(Lanes.UserBlockingLane, fn) : undefined;
+  } finally {
+    if (executingRoot) {
+      if (!deferredSyncFlush) console.error('[fiber] flushSync 在 render / commit 期间被调用，更新推迟到本次提交结束后同步处理');
+      deferredSyncFlush = true;
+    } else {
+      flushScheduledRoots();
     }
   }
 }
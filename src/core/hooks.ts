@@ -4,19 +4,26 @@
 // 设计目标：
 // - 与当前正在渲染的 FunctionComponent 对应的 Fiber 绑定（fiber.hooks 数组）
 // - 渲染阶段仅收集数据，不执行副作用（effect 延迟到 commit 阶段）
-// - 支持 useState / useRef / useMemo / useCallback / useEffect / useLayoutEffect
+// - 支持 useState / useReducer / useRef / useMemo / useCallback / useEffect / useLayoutEffect / useContext / useImperativeHandle
+//   / useTransition / useDeferredValue / useSyncExternalStore（另有 startTransition）
 // - 与旧的 legacy diff（非 Fiber）路径兼容：保留 currentComponent 方式
-// - 简化实现：不做并发 render 中间状态隔离，不做 Hook 链表，仅用数组 + 索引
+// - 简化实现：不做 Hook 链表，仅用数组 + 索引；每次 render 从已提交 hooks 克隆一份（被打断 / 丢弃的 render 不影响已提交状态）
+// - 状态更新：每个 state hook 持有更新队列（带 lane），在 render 中按 renderLanes 处理，低优更新跳过并按 React 方式 rebase
+//
+// - 开发模式（debugConfig.dev）：Fiber 路径下校验每个 hook 的类型序列与数量与上次提交的 render 一致；
+//   在组件外、useMemo 计算函数、reducer / 初始化函数、effect 回调中调用 hook 给出明确错误
 //
 // 与 React 差异：
-// - 没有 Hook 调用顺序错误检测（React 通过当前 dispatcher + 链表结构校验）
-// - 没有支持 useReducer / useImperativeHandle / useTransition 等扩展 Hook
-// - 没有真正的 Hook lane 分离；只是在 setState 时传入一个 lane（优先级位）
+// - Hook 顺序校验基于上次提交的 hooks 数组（React 通过当前 dispatcher + 链表结构校验）；legacy 路径不校验
+// - 所有 transition 共用一个 TransitionLane（React 为每个 transition 分配独立 lane）
 // - 没有 effect 挂载/更新阶段的双阶段区分（本实现依赖 fiber.ts 的 commit 分阶段）
-// - 不支持 render 中途打断后恢复时的 Hook 状态回退（实验中的并发仍简单覆盖）
+// - 更新队列用数组而非环形链表
 // ---------------------------------------------------------------
 
-import { scheduleRootUpdate } from './fiber';
+import { debugConfig, scheduleRootUpdate, getRenderLanes, markSkippedUpdateLanes, requestUpdateLane, runWithUpdateLane, isNonUrgentRender, isHydratingRender, recordStoreSnapshot } from './fiber';
+import { scheduleUpdate } from './scheduler';
+import type { Context } from './context';
+import { setRef, type Ref } from './ref';
 
 // ===================================================================
 // 1. 类型定义
@@ -33,6 +40,28 @@ interface EffectHook {
   depsChanged: boolean;           // 依赖本轮是否变化（commit 阶段决定是否重新执行）
 }
 
+// StateHook 用于 useState / useReducer（useState = 内置 basicStateReducer 的 useReducer）
+interface Update<S, A> {
+  lane: number;                   // 本次更新的优先级位；0 (NoLane) 表示 rebase 后必须处理
+  action: A;
+  hasEagerState: boolean;         // dispatch 时已提前算出结果（队列为空时的优化）
+  eagerState: S | null;
+}
+interface UpdateQueue<S, A> {
+  pending: Update<S, A>[];        // dispatch 追加、尚未被任何 render 接收的更新（current / WIP 共享）
+  dispatch: ((action: A, priority?: string) => void) | null; // 稳定的 dispatch 引用
+  lastRenderedReducer: (state: S, action: A) => S;
+  lastRenderedState: S;
+  hasSkippedUpdates: boolean;     // 上次 render 是否留下被跳过的更新（此时 eager 结果不可靠）
+}
+interface StateHook<S = any, A = any> {
+  __type: 'state';
+  memoizedState: S;               // 本次 render 的结果
+  baseState: S;                   // 第一个被跳过更新之前的状态（rebase 起点）
+  baseQueue: Update<S, A>[] | null; // 被跳过的更新及其之后的全部更新
+  queue: UpdateQueue<S, A>;
+}
+
 // ===================================================================
 // 2. 调度 / 优先级映射
 // ===================================================================
@@ -43,7 +72,8 @@ const LaneMap: Record<string, number> = {
   'high':          1 << 1,
   'normal':        1 << 2,
   'low':           1 << 3,
-  'idle':          1 << 4
+  'idle':          1 << 4,
+  'transition':    1 << 5   // startTransition 内的默认 lane（并发，可被高优打断）
 };
 
 // ===================================================================
@@ -67,8 +97,15 @@ export { currentComponent, hookIndex, currentFiber };
 export function prepareToUseHooks(fiber: any) {
   currentFiber = fiber;
   hookIndex = 0;
-  // 初始化 hooks 容器（数组），每个下标对应一次 Hook 调用的状态
-  fiber.hooks = fiber.hooks || [];
+  hookCallbackContext = null; // effect 回调中同步渲染（flushSync）的组件可以正常调用 hook
+  // 初始化 hooks 容器（数组），每个下标对应一次 Hook 调用的状态。
+  // 从已提交 fiber（alternate）克隆：本次 render 只修改副本，提交后副本随 fiber 成为 current；
+  // 被打断 / 丢弃的 render 不会改动已提交状态。ref 对象需保持引用稳定，不克隆；
+  // 更新队列（queue）为共享对象，保证 render 期间新到的 dispatch 不丢失。
+  const currentHooks: any[] | undefined = fiber.alternate?.hooks;
+  fiber.hooks = currentHooks ? currentHooks.map(h => (h && h.__type !== 'ref' ? { ...h } : h)) : [];
+  // context 依赖每次 render 重新收集
+  fiber.dependencies = undefined;
 }
 
 // 函数组件完成一次 render（无论成功或出错回退）后清理上下文
@@ -84,6 +121,7 @@ export function finishHooks() {
 export function setCurrentComponent(instance: any) {
   currentComponent = instance;
   hookIndex = 0;
+  hookCallbackContext = null;
   currentComponent.hooks = currentComponent.hooks || [];
 }
 export function resetCurrentComponent() {
@@ -95,54 +133,186 @@ export function resetCurrentComponent() {
 // ===================================================================
 
 // 统一获取当前 hooks 存储数组（优先 Fiber）。若都没有，说明 hook 在非法上下文被调用。
-function getHooksArray() {
-  if (currentFiber) return currentFiber.hooks;
+// hookName 用于错误信息；hookType 为本次要占用的槽位类型（effect 带 kind），开发模式下据此校验 hook 顺序
+function getHooksArray(hookName: string, hookType: string) {
+  if (hookCallbackContext) {
+    throw new Error(`[hooks] 不能在 ${hookCallbackContext}中调用 ${hookName}：hook 只能在函数组件顶层调用`);
+  }
+  if (currentFiber) {
+    if (debugConfig.dev) checkHookOrder(hookName, hookType);
+    return currentFiber.hooks;
+  }
   if (currentComponent) return currentComponent.hooks;
-  throw new Error('hooks: no current fiber/component (Hook 调用不在函数组件渲染上下文中)');
+  throw new Error(`[hooks] 无效的 hook 调用：${hookName} 只能在函数组件 render 期间调用（组件外、类组件、事件回调中均无效）`);
+}
+
+// ===================================================================
+// 6.1 开发模式诊断（debugConfig.dev）
+// ===================================================================
+// 上次提交的 hooks 数组即上次 render 记录的类型序列（每项带 __type）：
+// 本次第 i 个 hook 的类型必须与之相同，数量也必须相同；否则说明 hook 被条件 / 循环调用，按下标读到的是别的 hook 的状态
+let hookCallbackContext: string | null = null; // 正在执行的 useMemo 计算函数 / reducer / effect 回调（其中不能调用 hook）
+
+function describeHookSlot(hook: any): string {
+  return hook.__type === 'effect' ? `effect:${hook.kind}` : hook.__type;
+}
+
+function getComponentName(fiber: any): string {
+  return fiber?.type?.displayName || fiber?.type?.name || 'Anonymous';
+}
+
+const HOOK_RULES_HINT = 'hook 必须在组件顶层以相同顺序调用，不能放在条件、循环或提前 return 之后';
+
+function checkHookOrder(hookName: string, hookType: string) {
+  const committed: any[] | undefined = currentFiber.alternate?.hooks;
+  if (!committed) return; // 首次 render
+  const prev = committed[hookIndex];
+  if (prev === undefined) {
+    throw new Error(`[hooks] 组件 ${getComponentName(currentFiber)} 的第 ${hookIndex} 个 hook（${hookName}）在上次 render 中不存在：本次调用的 hook 比上次多（上次 ${committed.length} 个）。${HOOK_RULES_HINT}`);
+  }
+  const prevType = describeHookSlot(prev);
+  if (prevType !== hookType) {
+    throw new Error(`[hooks] 组件 ${getComponentName(currentFiber)} 的第 ${hookIndex} 个 hook 与上次 render 不一致：上次为 ${prevType}，本次为 ${hookType}（${hookName}）。${HOOK_RULES_HINT}`);
+  }
+}
+
+// 组件函数返回后调用（fiber.ts）：hook 数量少于上次
+export function checkRenderedHookCount() {
+  if (!debugConfig.dev || !currentFiber) return;
+  const committed: any[] | undefined = currentFiber.alternate?.hooks;
+  if (committed && hookIndex < committed.length) {
+    throw new Error(`[hooks] 组件 ${getComponentName(currentFiber)} 本次 render 调用了 ${hookIndex} 个 hook，上次为 ${committed.length} 个（从第 ${hookIndex} 个起缺失）。${HOOK_RULES_HINT}`);
+  }
+}
+
+// 执行用户回调期间禁止调用 hook（仅开发模式标记）
+function runInHookCallback<R>(context: string, fn: () => R): R {
+  if (!debugConfig.dev) return fn();
+  const prev = hookCallbackContext;
+  hookCallbackContext = context;
+  try { return fn(); } finally { hookCallbackContext = prev; }
 }
 
 // ===================================================================
 // 7. 各类 Hook 实现
 // ===================================================================
 // 说明：全部基于数组 + 索引。hookIndex 在组件 render 期间自增。
-// useState / useRef / useMemo / useCallback / useEffect / useLayoutEffect
+// useState / useReducer / useRef / useMemo / useCallback / useEffect / useLayoutEffect
+
+// ----------------------------- useReducer / useState -------------------
+// 存储结构：StateHook（见类型定义）
+// dispatch：创建 Update（带 lane）追加到 queue.pending，并调度所属 root；状态在下一次 render 中计算
+// render：pending 并入 baseQueue，按 renderLanes 逐个处理：
+//   - lane 不在 renderLanes 内：跳过，克隆进新 baseQueue（首个跳过时记录 baseState），并把 lane 标回 root
+//   - lane 在 renderLanes 内：应用；若之前已有跳过的更新，同时以 NoLane 克隆进 baseQueue，保证 rebase 后顺序一致
+function basicStateReducer<S>(state: S, action: any): S {
+  return typeof action === 'function' ? action(state) : action;
+}
 
-// ----------------------------- useState --------------------------------
-// 存储结构：{ __type:'state', value }
-// setState：更新 value，并根据传入优先级 lane 调度根更新（当前实现始终触发根调度）
-export function useState(initialValue: any) {
-  const hooksArr = getHooksArray();
-  const idx = hookIndex;
+function isSubsetOfLanes(set: number, subset: number) {
+  return (set & subset) === subset;
+}
 
-  // 首次创建：支持懒初始化（初始值为函数时调用得到真实值）
-  if (hooksArr[idx] === undefined) {
-    hooksArr[idx] = {
-      __type: 'state',
-      value: typeof initialValue === 'function' ? initialValue() : initialValue
-    };
+function mountReducer<S, A>(hooksArr: any[], idx: number, reducer: (state: S, action: A) => S, initialState: S): StateHook<S, A> {
+  const queue: UpdateQueue<S, A> = { pending: [], dispatch: null, lastRenderedReducer: reducer, lastRenderedState: initialState, hasSkippedUpdates: false };
+  const hook: StateHook<S, A> = { __type: 'state', memoizedState: initialState, baseState: initialState, baseQueue: null, queue };
+  hooksArr[idx] = hook;
+  // 记录 hook 所属 fiber：dispatch 只重新渲染该 fiber 所在的 root
+  const fiber = currentFiber;
+  const component = currentComponent;
+  queue.dispatch = (action: A, priority?: string) => dispatchAction(fiber, component, queue, action, priority);
+  return hook;
+}
+
+function updateReducer<S, A>(hook: StateHook<S, A>, reducer: (state: S, action: A) => S) {
+  const queue = hook.queue;
+  queue.lastRenderedReducer = reducer;
+  // 1. 接收 pending 更新：并入 baseQueue，并同步写回已提交 hook（本次 render 若被丢弃，更新不会丢失）
+  if (queue.pending.length) {
+    const merged = (hook.baseQueue || []).concat(queue.pending);
+    queue.pending = [];
+    hook.baseQueue = merged;
+    const committed = currentFiber?.alternate?.hooks?.[hookIndex];
+    if (committed && committed.queue === queue) committed.baseQueue = merged;
+  }
+  if (!hook.baseQueue) return;
+  // 2. 按 renderLanes 处理（legacy 路径没有 lanes 概念：全部处理）
+  const renderLanes = currentFiber ? getRenderLanes() : ~0;
+  let newState = hook.baseState;
+  let newBaseState: S | null = null;
+  const newBaseQueue: Update<S, A>[] = [];
+  for (const update of hook.baseQueue) {
+    if (!isSubsetOfLanes(renderLanes, update.lane)) {
+      if (!newBaseQueue.length) newBaseState = newState;
+      newBaseQueue.push({ ...update });
+      markSkippedUpdateLanes(update.lane);
+    } else {
+      if (newBaseQueue.length) newBaseQueue.push({ ...update, lane: 0 });
+      newState = update.hasEagerState ? update.eagerState as S : runInHookCallback('reducer / setState 更新函数', () => reducer(newState, update.action));
+    }
   }
+  hook.memoizedState = newState;
+  hook.baseState = newBaseQueue.length ? newBaseState as S : newState;
+  hook.baseQueue = newBaseQueue.length ? newBaseQueue : null;
+  queue.lastRenderedState = newState;
+  queue.hasSkippedUpdates = newBaseQueue.length > 0;
+}
 
-  const setState = (
-    newValue: any,
-    priority: 'user-blocking' | 'high' | 'normal' | 'low' | 'idle' = 'normal'
-  ) => {
-    const prev = hooksArr[idx].value;
-    const next = typeof newValue === 'function' ? newValue(prev) : newValue;
-    if (Object.is(prev, next)) return; // 值未变化可直接跳过（简单优化）
-    hooksArr[idx].value = next;
-    const lane = LaneMap[priority] ?? LaneMap['normal'];
-    // 触发根更新（fiber.ts 内部依据 lane 决定同步 / 并发 & 是否打断其他渲染）
-    scheduleRootUpdate(lane);
-  };
+function dispatchAction<S, A>(fiber: any, component: any, queue: UpdateQueue<S, A>, action: A, priority?: string) {
+  const lane = (priority && LaneMap[priority]) || requestUpdateLane();
+  const update: Update<S, A> = { lane, action, hasEagerState: false, eagerState: null };
+  // 队列为空时提前计算：结果与上次渲染相同则无需调度（简单优化）
+  if (!queue.pending.length && !queue.hasSkippedUpdates) {
+    try {
+      const eagerState = queue.lastRenderedReducer(queue.lastRenderedState, action);
+      update.hasEagerState = true; update.eagerState = eagerState;
+      if (Object.is(eagerState, queue.lastRenderedState)) return;
+    } catch {
+      // reducer 抛错：留到 render 中再次执行，由错误边界处理
+    }
+  }
+  queue.pending.push(update);
+  if (fiber) {
+    // 触发所属 root 更新（fiber.ts 内部依据 lane 决定同步 / 并发 & 是否打断其他渲染）
+    scheduleRootUpdate(fiber, lane);
+  } else if (component && typeof component.update === 'function') {
+    // legacy diff 路径：交给组件级 scheduler
+    scheduleUpdate(component, (priority as any) || 'normal');
+  }
+}
 
+export function useReducer<S, A, I = S>(reducer: (state: S, action: A) => S, initialArg: I, init?: (arg: I) => S) {
+  const hooksArr = getHooksArray('useReducer', 'state');
+  const idx = hookIndex;
+  let hook = hooksArr[idx] as StateHook<S, A> | undefined;
+  if (hook === undefined) {
+    hook = mountReducer(hooksArr, idx, reducer, init ? runInHookCallback('useReducer 的初始化函数', () => init(initialArg)) : initialArg as unknown as S);
+  } else {
+    updateReducer(hook, reducer);
+  }
   hookIndex++;
-  return [hooksArr[idx].value, setState] as const;
+  return [hook.memoizedState, hook.queue.dispatch!] as const;
+}
+
+// useState：useReducer 的特例（reducer = basicStateReducer，支持函数式更新与懒初始化）
+// setState(value, priority?) 仍支持显式传入优先级字符串
+export function useState(initialValue: any) {
+  const hooksArr = getHooksArray('useState', 'state');
+  const idx = hookIndex;
+  let hook = hooksArr[idx] as StateHook | undefined;
+  if (hook === undefined) {
+    hook = mountReducer(hooksArr, idx, basicStateReducer, typeof initialValue === 'function' ? runInHookCallback('useState 的初始化函数', initialValue) : initialValue);
+  } else {
+    updateReducer(hook, basicStateReducer);
+  }
+  hookIndex++;
+  return [hook.memoizedState, hook.queue.dispatch as (newValue: any, priority?: 'user-blocking' | 'high' | 'normal' | 'low' | 'idle' | 'transition') => void] as const;
 }
 
 // ----------------------------- useRef ----------------------------------
 // 返回一个稳定对象 { current }，跨 render 持久。
 export function useRef<T = any>(initialValue: T): { current: T } {
-  const hooksArr = getHooksArray();
+  const hooksArr = getHooksArray('useRef', 'ref');
   const idx = hookIndex;
   if (hooksArr[idx] === undefined) {
     hooksArr[idx] = { __type: 'ref', current: initialValue };
@@ -155,11 +325,11 @@ export function useRef<T = any>(initialValue: T): { current: T } {
 // 依赖未变则复用缓存值；依赖变化重新执行 factory。
 // 存储结构：{ __type:'memo', value, deps }
 export function useMemo<T>(factory: () => T, deps: any[]): T {
-  const hooksArr = getHooksArray();
+  const hooksArr = getHooksArray('useMemo', 'memo');
   const idx = hookIndex;
 
   if (hooksArr[idx] === undefined) {
-    hooksArr[idx] = { __type: 'memo', value: factory(), deps };
+    hooksArr[idx] = { __type: 'memo', value: runInHookCallback('useMemo 的计算函数', factory), deps };
     hookIndex++;
     return hooksArr[idx].value;
   }
@@ -167,7 +337,7 @@ export function useMemo<T>(factory: () => T, deps: any[]): T {
   const memo = hooksArr[idx];
   const changed = !deps || !memo.deps || deps.length !== memo.deps.length || deps.some((d: any, i: number) => d !== memo.deps[i]);
   if (changed) {
-    memo.value = factory();
+    memo.value = runInHookCallback('useMemo 的计算函数', factory);
     memo.deps = deps;
   }
   hookIndex++;
@@ -190,9 +360,14 @@ export function useCallback<T extends (...args: any[]) => any>(cb: T, deps: any[
 //   deps 未变      => 跳过
 // 卸载：在 Fiber commit 删除阶段统一执行 destroy
 
-function mountOrUpdateEffect(kind: 'passive' | 'layout', create: Function, deps?: any[]) {
-  const hooksArr = getHooksArray();
+function mountOrUpdateEffect(kind: 'passive' | 'layout', rawCreate: Function, deps?: any[], hookName = kind === 'layout' ? 'useLayoutEffect' : 'useEffect') {
+  const hooksArr = getHooksArray(hookName, `effect:${kind}`);
   const idx = hookIndex++;
+  // 开发模式：effect 回调及其清理函数执行期间禁止调用 hook
+  const create = debugConfig.dev ? () => {
+    const destroy = runInHookCallback(`${hookName} 回调`, rawCreate as () => any);
+    return typeof destroy === 'function' ? () => runInHookCallback(`${hookName} 的清理函数`, destroy) : destroy;
+  } : rawCreate;
   const isFirst = hooksArr[idx] === undefined;
 
   if (isFirst) {
@@ -233,8 +408,184 @@ export function useLayoutEffect(create: Function, deps?: any[]) {
   mountOrUpdateEffect('layout', create, deps);
 }
 
+// ----------------------------- useImperativeHandle ---------------------
+// 基于 layout effect：在 ref 挂载阶段之后把 create() 的返回值写入 ref，卸载 / 依赖变化时先置 null
+export function useImperativeHandle<T>(ref: Ref<T>, create: () => T, deps?: any[]) {
+  mountOrUpdateEffect('layout', () => {
+    setRef(ref, create());
+    return () => setRef(ref, null);
+  }, deps ? [...deps, ref] : undefined, 'useImperativeHandle');
+}
+
+// ----------------------------- useContext ------------------------------
+// 读取最近 Provider 的值（无 Provider 时为默认值）。不占用 hooks 数组槽位；
+// Fiber 路径下记录依赖（context + 读取时的值），fiber.ts 在 bailout 前据此判断是否必须重新渲染。
+export function useContext<T>(context: Context<T>): T {
+  if (hookCallbackContext) throw new Error(`[hooks] 不能在 ${hookCallbackContext}中调用 useContext：hook 只能在函数组件顶层调用`);
+  const value = context._currentValue;
+  if (currentFiber) {
+    (currentFiber.dependencies ||= []).push({ context, memoizedValue: value });
+  }
+  return value;
+}
+
+// ----------------------------- startTransition / useTransition ---------
+// startTransition(fn)：fn 内未显式指定优先级的更新使用 transition lane（并发渲染，紧急更新可打断）
+export function startTransition(fn: () => void) {
+  runWithUpdateLane(LaneMap['transition'], fn);
+}
+
+// useTransition：返回 [isPending, start]。
+// start 先以 user-blocking 置 isPending=true，再在 transition 内置 false 并执行 fn：
+// 两个更新处于同一队列，isPending=false 与 fn 内的更新一起在 transition 提交时才生效。
+export function useTransition(): [boolean, (fn: () => void) => void] {
+  const [isPending, setPending] = useState(false);
+  const start = useCallback((fn: () => void) => {
+    setPending(true, 'user-blocking');
+    startTransition(() => {
+      setPending(false);
+      fn();
+    });
+  }, []);
+  return [isPending, start];
+}
+
+// ----------------------------- useDeferredValue ------------------------
+// 紧急 render 中 value 变化时先返回上次的值，并以 transition lane 安排一次后续 render；
+// 在非紧急 render（transition / low / idle）中返回最新值。首次渲染直接返回 value。
+// 存储结构：{ __type:'deferred', value }
+export function useDeferredValue<T>(value: T): T {
+  const hooksArr = getHooksArray('useDeferredValue', 'deferred');
+  const idx = hookIndex++;
+  const hook = hooksArr[idx];
+  if (hook === undefined) {
+    hooksArr[idx] = { __type: 'deferred', value };
+    return value;
+  }
+  if (Object.is(hook.value, value)) return value;
+  if (!currentFiber || isNonUrgentRender()) {
+    hook.value = value; // legacy 路径没有 lanes：直接采用新值
+    return value;
+  }
+  scheduleRootUpdate(currentFiber, LaneMap['transition']);
+  return hook.value;
+}
+
+// ----------------------------- useSyncExternalStore --------------------
+// 订阅外部 store：render 中直接读取 getSnapshot()，不需要 useEffect + useState 带来的额外一次 render
+// - store 变化（订阅回调 / 提交后复查）时以 user-blocking lane 重新渲染所属组件：外部 store 的更新不参与时间分片
+// - 并发 render 中登记读取的快照，fiber.ts 提交前复查；时间片之间 store 已变化（撕裂）则同步重新 render，
+//   保证同一次提交中所有组件看到同一版本
+// - 服务端渲染与 hydration 使用 getServerSnapshot；hydration 提交后若客户端快照不同，立即补一次 render
+// 存储结构：{ __type:'store', inst: { value, getSnapshot, fiber, component } }（inst 跨 render 共享，订阅回调读取已提交的快照）
+interface StoreInstance<T> {
+  value: T;                       // 最近一次提交时的快照
+  getSnapshot: () => T;
+  fiber: any;                     // 所属 fiber（Fiber 路径）
+  component: any;                 // legacy 组件实例
+}
+
+let didWarnUncachedSnapshot = false;
+
+export function useSyncExternalStore<T>(subscribe: (onStoreChange: () => void) => () => void, getSnapshot: () => T, getServerSnapshot?: () => T): T {
+  const hooksArr = getHooksArray('useSyncExternalStore', 'store');
+  const idx = hookIndex++;
+  // 服务端渲染的一次性组件实例没有 update 方法（见 server.ts）
+  const isServer = !currentFiber && typeof currentComponent?.update !== 'function';
+  const hydrating = !!currentFiber && isHydratingRender();
+  let value: T;
+  if (isServer || hydrating) {
+    if (!getServerSnapshot) throw new Error('useSyncExternalStore: 服务端渲染 / hydration 需要提供 getServerSnapshot');
+    value = getServerSnapshot();
+  } else {
+    value = getSnapshot();
+    if (!didWarnUncachedSnapshot && !Object.is(value, getSnapshot())) {
+      didWarnUncachedSnapshot = true;
+      console.error('useSyncExternalStore: getSnapshot 两次调用结果不同，应返回缓存的快照（否则每次检查都视为 store 已变化）');
+    }
+    if (currentFiber) recordStoreSnapshot(getSnapshot, value);
+  }
+  if (hooksArr[idx] === undefined) {
+    hooksArr[idx] = { __type: 'store', inst: { value, getSnapshot, fiber: currentFiber, component: currentComponent } as StoreInstance<T> };
+  }
+  const inst: StoreInstance<T> = hooksArr[idx].inst;
+  // 提交后记录本次快照；render 到提交之间 store 已变化（或 hydration 使用了服务端快照）则补一次 render
+  useLayoutEffect(() => {
+    inst.value = value;
+    inst.getSnapshot = getSnapshot;
+    if (checkIfSnapshotChanged(inst)) forceStoreRerender(inst);
+  }, [subscribe, value, getSnapshot]);
+  useEffect(() => {
+    const handleStoreChange = () => {
+      if (checkIfSnapshotChanged(inst)) forceStoreRerender(inst);
+    };
+    handleStoreChange(); // 订阅之前 store 可能已变化
+    return subscribe(handleStoreChange);
+  }, [subscribe]);
+  return value;
+}
+
+function checkIfSnapshotChanged<T>(inst: StoreInstance<T>) {
+  try {
+    return !Object.is(inst.getSnapshot(), inst.value);
+  } catch {
+    return true; // getSnapshot 抛错：重新 render，由错误边界处理
+  }
+}
+
+function forceStoreRerender<T>(inst: StoreInstance<T>) {
+  if (inst.fiber) scheduleRootUpdate(inst.fiber, LaneMap['user-blocking']);
+  else if (inst.component && typeof inst.component.update === 'function') scheduleUpdate(inst.component, 'user-blocking');
+}
+
+// ===================================================================
+// 8. DevTools 支持（devtools.ts 读取已提交 fiber 的 hooks）
+// ===================================================================
+export interface InspectedHook {
+  index: number;                  // hooks 数组下标（overrideHookState 据此定位）
+  name: string;                   // State / Reducer / Ref / Memo / Effect / LayoutEffect / DeferredValue / SyncExternalStore
+  value: any;                     // 当前值；effect 为 deps
+  editable: boolean;              // 只有 useState 可直接改写
+}
+
+const INSPECTED_HOOK_NAMES: Record<string, string> = { ref: 'Ref', memo: 'Memo', deferred: 'DeferredValue', store: 'SyncExternalStore' };
+
+export function inspectHooks(hooks: any[] | undefined): InspectedHook[] {
+  const out: InspectedHook[] = [];
+  (hooks || []).forEach((h, index) => {
+    if (!h) return;
+    switch (h.__type) {
+      case 'state': {
+        const isState = h.queue.lastRenderedReducer === basicStateReducer;
+        out.push({ index, name: isState ? 'State' : 'Reducer', value: h.memoizedState, editable: isState });
+        break;
+      }
+      case 'effect':
+        out.push({ index, name: h.kind === 'layout' ? 'LayoutEffect' : 'Effect', value: h.deps, editable: false });
+        break;
+      case 'ref':
+        out.push({ index, name: 'Ref', value: h.current, editable: false });
+        break;
+      case 'store':
+        out.push({ index, name: 'SyncExternalStore', value: h.inst.value, editable: false });
+        break;
+      default:
+        out.push({ index, name: INSPECTED_HOOK_NAMES[h.__type] || h.__type, value: h.value, editable: false });
+    }
+  });
+  return out;
+}
+
+// 以 user-blocking 优先级把 useState 改写为 value（与组件内 setState 走同一更新队列）；不是 useState 时返回 false
+export function overrideHookState(hooks: any[] | undefined, index: number, value: any): boolean {
+  const h = hooks?.[index];
+  if (!h || h.__type !== 'state' || h.queue.lastRenderedReducer !== basicStateReducer || !h.queue.dispatch) return false;
+  h.queue.dispatch(() => value, 'user-blocking'); // 包一层函数：value 本身是函数时不会被当作更新函数
+  return true;
+}
+
 // ===================================================================
-// 8. 说明（副作用执行时机摘要）
+// 9. 说明（副作用执行时机摘要）
 // ===================================================================
 // 提交阶段（见 fiber.ts）：
 // 1. layout effects：commit DOM 变更后立即同步执行。
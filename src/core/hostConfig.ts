@@ -0,0 +1,195 @@
+// hostConfig.ts
+// 宿主接口：fiber 协调器（fiber.ts）只通过 HostConfig 创建 / 插入 / 删除 / 更新宿主节点并请求调度，
+// 不直接访问 DOM。domHostConfig 是浏览器 DOM 实现（createRoot / hydrateRoot 默认使用）；
+// 其他宿主（canvas 场景图、native bridge、测试渲染器）通过 createReconciler(hostConfig) 接入。
+// - Container：根容器（DOM 中为 HTMLElement）；Instance：HostComponent 节点；TextInstance：文本节点
+// - 实例在 render 阶段创建（尚未挂载），插入 / 删除 / 属性更新只在 commit 阶段发生
+// - internalHandle 为对应的 fiber（不透明句柄）：宿主可借此把节点映射回 fiber 树（DOM 的委托事件即依赖它）
+// - hydration 相关方法可选；未实现时 hydrateRoot 不可用
+
+import { listenToAllSupportedEvents, precacheFiberNode, isDelegatedEventProp, parseEventProp } from './events';
+
+// 时间片回调参数（与 requestIdleCallback 的 IdleDeadline 对齐）
+export interface IdleDeadlineLike {
+  timeRemaining(): number;
+  didTimeout?: boolean;
+}
+
+export interface HostConfig<Container = any, Instance = any, TextInstance = any> {
+  // ---- 创建（render 阶段）----
+  createInstance(type: string, props: any, rootContainer: Container, internalHandle: any): Instance; // 创建节点并应用初始 props
+  createTextInstance(text: string, rootContainer: Container): TextInstance;
+  // ---- 树操作（commit 阶段；父节点可以是容器或实例）----
+  appendChild(parent: Container | Instance, child: Instance | TextInstance): void;
+  insertBefore(parent: Container | Instance, child: Instance | TextInstance, before: Instance | TextInstance): void;
+  removeChild(parent: Container | Instance, child: Instance | TextInstance): void;
+  // ---- 更新（commit 阶段）----
+  commitUpdate(instance: Instance, oldProps: any, newProps: any, internalHandle: any): void;
+  commitTextUpdate(textInstance: TextInstance, oldText: string, newText: string): void;
+  // ---- Suspense 隐藏主内容（Offscreen）----
+  hideInstance(instance: Instance): void;
+  unhideInstance(instance: Instance, props: any): void;
+  hideTextInstance(textInstance: TextInstance): void;
+  unhideTextInstance(textInstance: TextInstance, text: string): void;
+  // ---- 容器（可选）----
+  prepareContainer?(container: Container): void;                  // 根容器创建 / portal 首次挂载时调用（DOM 在此注册委托事件）
+  // ---- 调度原语 ----
+  now(): number;                                                  // 单调时钟（ms），用于时间片预算
+  scheduleMicrotask(fn: () => void): void;                       // 批处理合并更新
+  scheduleTimeout(fn: () => void, ms: number): void;             // passive effect 延后执行
+  scheduleIdleCallback(cb: (deadline: IdleDeadlineLike) => void): void; // 并发渲染时间片
+  // ---- hydration（可选）----
+  getFirstHydratableChild?(parent: Container | Instance): Instance | TextInstance | null;
+  getNextHydratableSibling?(node: Instance | TextInstance): Instance | TextInstance | null;
+  canHydrateInstance?(node: Instance | TextInstance, type: string): boolean;
+  getHydratableText?(node: Instance | TextInstance): string | null; // 文本节点返回其内容，否则 null
+  hydrateInstance?(instance: Instance, props: any, internalHandle: any): void; // 认领后补齐 props / 事件
+  describeHydratableNode?(node: Instance | TextInstance): string;  // 不一致警告中的描述
+}
+
+// ======================== DOM 实现 ========================
+export const domHostConfig: HostConfig<HTMLElement, HTMLElement, Text> = {
+  createInstance(type, props, _rootContainer, internalHandle) {
+    const el = document.createElement(type);
+    precacheFiberNode(el, internalHandle, props);
+    updateHostComponentProps(el, {}, props);
+    return el;
+  },
+  createTextInstance(text) {
+    return document.createTextNode(text);
+  },
+  appendChild(parent, child) {
+    parent.appendChild(child);
+  },
+  insertBefore(parent, child, before) {
+    parent.insertBefore(child, before);
+  },
+  removeChild(parent, child) {
+    if (child.parentNode === parent) parent.removeChild(child);
+  },
+  commitUpdate(instance, oldProps, newProps, internalHandle) {
+    precacheFiberNode(instance, internalHandle, newProps); // 派发时读取的 handler 随提交更新
+    updateHostComponentProps(instance, oldProps, newProps);
+  },
+  commitTextUpdate(textInstance, _oldText, newText) {
+    textInstance.data = newText;
+  },
+  hideInstance(instance) {
+    instance.style.setProperty('display', 'none', 'important');
+  },
+  // 恢复显示：去掉 display 后按 props.style 重新应用（保留用户自己设置的 display）
+  unhideInstance(instance, props) {
+    instance.style.removeProperty('display');
+    if (typeof props.style === 'string') instance.setAttribute('style', props.style);
+    else if (props.style && props.style.display != null) instance.style.display = props.style.display;
+  },
+  hideTextInstance(textInstance) {
+    textInstance.data = '';
+  },
+  unhideTextInstance(textInstance, text) {
+    textInstance.data = text;
+  },
+  prepareContainer(container) {
+    listenToAllSupportedEvents(container);
+  },
+  now: () => performance.now(),
+  scheduleMicrotask: fn => queueMicrotask(fn),
+  scheduleTimeout: (fn, ms) => { setTimeout(fn, ms); },
+  scheduleIdleCallback(cb) {
+    if (typeof (window as any).requestIdleCallback === 'function') {
+      (window as any).requestIdleCallback(cb);
+    } else {
+      // 无 requestIdleCallback（如 Safari）：用宏任务模拟，时间片从回调开始计
+      setTimeout(() => {
+        const start = performance.now();
+        cb({ timeRemaining: () => Math.max(0, IDLE_FALLBACK_BUDGET - (performance.now() - start)), didTimeout: false });
+      }, 1);
+    }
+  },
+  // hydration：注释节点（相邻文本分隔 <!-- -->、Suspense 标记等）不参与认领
+  getFirstHydratableChild(parent) {
+    return skipComments(parent.firstChild) as any;
+  },
+  getNextHydratableSibling(node) {
+    return skipComments(node.nextSibling) as any;
+  },
+  canHydrateInstance(node, type) {
+    return node.nodeType === Node.ELEMENT_NODE && node.nodeName.toLowerCase() === type.toLowerCase();
+  },
+  getHydratableText(node) {
+    return node.nodeType === Node.TEXT_NODE ? (node as Text).data : null;
+  },
+  hydrateInstance(instance, props, internalHandle) {
+    precacheFiberNode(instance, internalHandle, props);
+    updateHostComponentProps(instance, {}, props);
+  },
+  describeHydratableNode(node) {
+    return node.nodeType === Node.TEXT_NODE ? `文本 ${JSON.stringify((node as Text).data)}` : `<${node.nodeName.toLowerCase()}>`;
+  }
+};
+
+const IDLE_FALLBACK_BUDGET = 8; // setTimeout 模拟的时间片 (ms)
+
+function skipComments(node: Node | null): Node | null {
+  while (node && node.nodeType === Node.COMMENT_NODE) node = node.nextSibling;
+  return node;
+}
+
+// ======================== DOM 属性 / 事件 Diff ========================
+function updateHostComponentProps(el: HTMLElement, oldProps: any, newProps: any) {
+  // 先处理 style 对象：转换为行内样式 diff
+  function applyStylePatch(oldStyle: any, newStyle: any) {
+    if (!oldStyle && !newStyle) return;
+    const style = (el as any).style; if (!style) return;
+    oldStyle = oldStyle || {}; newStyle = newStyle || {};
+    // 移除
+    for (const k in oldStyle) { if (!(k in newStyle)) { style[k] = ''; } }
+    // 添加或更新
+    for (const k in newStyle) { if (oldStyle[k] !== newStyle[k]) { style[k] = newStyle[k]; } }
+  }
+  const oldStyle = oldProps?.style && typeof oldProps.style === 'object' ? oldProps.style : null;
+  const newStyle = newProps?.style && typeof newProps.style === 'object' ? newProps.style : null;
+  // style 对象 diff
+  if (oldStyle || newStyle) applyStylePatch(oldStyle, newStyle);
+  // 新增：支持 style 传入字符串（JSX 中 style="..."），旧实现会直接跳过导致样式不生效
+  const oldStyleStr = typeof oldProps?.style === 'string' ? oldProps.style : null;
+  const newStyleStr = typeof newProps?.style === 'string' ? newProps.style : null;
+  if (oldStyleStr && !newStyleStr) { // 从字符串移除
+    el.removeAttribute('style');
+  }
+  if (newStyleStr) {
+    if (oldStyleStr !== newStyleStr) {
+      // 直接覆盖（与 React 不同，这里简单实现，无需 diff）
+      el.setAttribute('style', newStyleStr);
+    }
+  }
+  // 若从 字符串 -> 对象，前面对象 diff 已应用，需要确保不残留旧字符串：已在旧字符串存在且新不是字符串时 removeAttribute 处理
+
+  // 移除旧属性/事件（委托事件由 events.ts 在派发时读取 props，无需绑定）
+  for (const key in oldProps) {
+    if (key === 'children' || key === 'key' || key === 'style' || key === 'ref' || isDelegatedEventProp(key)) continue;
+    if (!(key in newProps)) {
+      if (/^on[A-Z]/.test(key)) {
+        const { type, capture } = parseEventProp(key);
+        el.removeEventListener(type, oldProps[key], capture);
+      } else {
+        (el as any)[key] !== undefined ? (el as any)[key] = '' : el.removeAttribute(key);
+      }
+    }
+  }
+  // 添加 / 更新
+  for (const key in newProps) {
+    if (key === 'children' || key === 'key' || key === 'style' || key === 'ref' || isDelegatedEventProp(key)) continue;
+    const next = newProps[key]; const prev = oldProps[key];
+    if (prev === next) continue;
+    if (/^on[A-Z]/.test(key)) { // 非委托事件（如自定义元素事件）：直接绑定在元素上
+      const { type, capture } = parseEventProp(key);
+      if (prev) el.removeEventListener(type, prev, capture);
+      el.addEventListener(type, next, capture);
+    } else if ((el as any)[key] !== undefined) {
+      (el as any)[key] = next;
+    } else {
+      el.setAttribute(key, next);
+    }
+  }
+}
@@ -3,6 +3,19 @@ export * from './createElement';
 export * from './render';
 export * from './diff';
 export * from './hooks';
+export * from './context';
+export * from './errorBoundary';
+export * from './suspense';
+export * from './ref';
+export * from './memo';
+export { Component, PureComponent } from './component';
+export * from './portal';
+export { StrictMode } from './strictMode';
+export * from './profiler';
+export type { SyntheticEvent } from './events';
+export * from './server';
+export * from './testRenderer';
 export * from './scheduler';
+export { installDevToolsHook, getDevToolsHook, DEVTOOLS_GLOBAL_HOOK_KEY, type DevToolsHook, type DevToolsCommit, type DevToolsFiberSnapshot } from './devtools';
 export * from './types';
 export * from './reconciler';
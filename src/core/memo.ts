@@ -0,0 +1,24 @@
+// memo.ts
+// memo(Component, areEqual?)：props 比较相等且自身无待处理更新时跳过组件 render，直接复用已提交的子树
+// - 与 forwardRef 相同，返回普通函数组件（Fiber 按 FunctionComponent 处理，legacy / 服务端渲染照常执行）
+// - 比较函数默认浅比较；areEqual(prevProps, nextProps) 返回 true 表示相等（跳过 render）
+// - 自身 state 更新、读取的 context 变化仍会重新 render，不经过比较函数
+export const MemoSymbol = Symbol('Memo');
+
+export type AreEqual<P> = (prevProps: Readonly<P>, nextProps: Readonly<P>) => boolean;
+
+export function memo<P = any>(Component: (props: P) => any, areEqual?: AreEqual<P>) {
+  function Memo(props: P) {
+    return Component(props);
+  }
+  (Memo as any).$$typeof = MemoSymbol;
+  (Memo as any).type = Component;
+  (Memo as any).compare = areEqual || null; // null：fiber 中使用 shallowEqual
+  // 调试显示为 Memo(Inner)
+  Object.defineProperty(Memo, 'name', { value: `Memo(${(Component as any).displayName || Component.name || 'Anonymous'})` });
+  return Memo;
+}
+
+export function isMemoComponent(type: any): boolean {
+  return typeof type === 'function' && type.$$typeof === MemoSymbol;
+}
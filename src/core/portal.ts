@@ -0,0 +1,18 @@
+// portal.ts
+// createPortal(children, domNode)：把子树渲染到另一个 DOM 容器（弹窗 / tooltip 脱离 overflow:hidden 祖先）
+// - Fiber 中对应 HostPortal 标记：其子 host 节点插入 / 删除都以 domNode 为父节点
+// - Portal 仍在原 fiber 树中：context、错误边界、effect cleanup 均沿 fiber 树而非 DOM 树
+import type { VNode } from './types';
+
+export const Portal = Symbol('Portal');
+
+export function createPortal(children: any, container: Element | DocumentFragment, key?: string | number): VNode {
+  const collected = children == null ? [] : Array.isArray(children) ? children.flat() : [children];
+  return {
+    type: Portal,
+    props: { container, children: collected },
+    children: collected,
+    key,
+    dom: null,
+  };
+}
@@ -0,0 +1,27 @@
+// profiler.ts
+// <Profiler id onRender>children</Profiler>：测量子树每次提交的渲染耗时（Fiber 对应 Profiler 标记）
+// - 子树内的 fiber 带 ProfileMode 位（沿 fiber.mode 继承），performUnitOfWork 为其记录 beginWork + completeWork 自身耗时
+// - 子树本次有 fiber 重新 render 时，在 layout 阶段（子树的 layout effect 之后）调用 onRender；整体 bailout 的提交不回调
+// - 服务端渲染 / legacy render 中按普通组件处理（直接返回 children，不计时）
+export type ProfilerPhase = 'mount' | 'update';
+
+export type ProfilerOnRender = (
+  id: string,
+  phase: ProfilerPhase,       // Profiler 首次挂载为 mount，其余为 update
+  actualDuration: number,     // 本次提交中子树实际 render 耗时 (ms)：bailout 跳过的 fiber 不计
+  baseDuration: number,       // 子树各 fiber 最近一次 render 自身耗时之和：估算不做任何 bailout 时的耗时
+  startTime: number,          // 本次 render 开始时间（host.now()）
+  commitTime: number,         // 本次提交开始时间；同一次提交中的所有 Profiler 相同
+  lanes: number               // 本次 render 处理的 lanes（位掩码，见 fiber.ts Lanes）
+) => void;
+
+export interface ProfilerProps {
+  id: string;
+  onRender: ProfilerOnRender;
+  children?: any;
+}
+
+// 标记组件：Fiber 通过引用比较识别为 Profiler，不会直接调用
+export function Profiler(props: ProfilerProps): any {
+  return props.children;
+}
@@ -1,10 +1,31 @@
 // reconciler.ts
 // 递归调和 VNode 树，调用 diff
-// reconciler.ts
-// 递归调和 VNode 树，调用 diff
+// 另提供 createReconciler(hostConfig)：以任意宿主实现驱动 fiber 调和器（DOM 只是其中一种宿主）
 import type { VNode } from './types';
 import { diff } from './diff';
+import { createHostRoot, hydrateHostRoot, flushSync, type RootOptions } from './fiber';
+import type { HostConfig } from './hostConfig';
+
+export { domHostConfig } from './hostConfig';
+export type { HostConfig, IdleDeadlineLike } from './hostConfig';
 
 export function reconcile(vnode: VNode, container: HTMLElement) {
   diff(null, vnode, container);
 }
+
+// ======================== 自定义宿主 ========================
+// createReconciler(host)：返回绑定到该宿主的 root 工厂；root 的 render / unmount 与 DOM 的 createRoot 语义一致
+// （批处理、lane、Suspense、effects 等全部沿用 fiber 实现，只是节点操作与调度改走 host）
+export function createReconciler<Container, Instance, TextInstance>(host: HostConfig<Container, Instance, TextInstance>) {
+  const config = host as HostConfig;
+  return {
+    createRoot(container: Container, options: RootOptions = {}) {
+      return createHostRoot(config, container, options);
+    },
+    // 需要 host 实现可选的 hydration 方法，否则抛错
+    hydrateRoot(container: Container, vnode: VNode, options: RootOptions = {}) {
+      return hydrateHostRoot(config, container, vnode, options);
+    },
+    flushSync
+  };
+}
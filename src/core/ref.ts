@@ -0,0 +1,26 @@
+// ref.ts
+// ref 支持：对象 ref（{ current }）与回调 ref（(instance | null) => void）
+// - HostComponent 的 ref 在 commit 阶段 Placement / Update 之后、layout effect 之前挂载，删除时置 null
+// - forwardRef(render)：函数组件接收父组件传入的 ref，转交给子元素或 useImperativeHandle
+export type RefObject<T> = { current: T | null };
+export type RefCallback<T> = (instance: T | null) => void;
+export type Ref<T> = RefObject<T> | RefCallback<T> | null | undefined;
+
+// 写入 ref（attach 传实例，detach 传 null）
+export function setRef<T>(ref: Ref<T>, value: T | null) {
+  if (typeof ref === 'function') ref(value);
+  else if (ref && typeof ref === 'object') ref.current = value;
+}
+
+export const ForwardRefSymbol = Symbol('ForwardRef');
+
+// forwardRef：返回普通函数组件（Fiber 按 FunctionComponent 处理），从 props 中取出 ref 作为第二个参数
+export function forwardRef<T = any, P = any>(render: (props: P, ref: Ref<T>) => any) {
+  function ForwardRef(props: P & { ref?: Ref<T> }) {
+    const { ref, ...rest } = props as any;
+    return render(rest as P, ref ?? null);
+  }
+  (ForwardRef as any).$$typeof = ForwardRefSymbol;
+  (ForwardRef as any).render = render;
+  return ForwardRef;
+}
@@ -3,13 +3,28 @@
 // 如需回退旧实现，可调用 legacyRender。
 import type { VNode } from './types';
 import { diff } from './diff';
-import { renderRoot } from './fiber';
+import { renderRoot, createRoot as createFiberRoot, hydrateRoot as hydrateFiberRoot, flushSync as fiberFlushSync, type RootOptions } from './fiber';
 
-// 新：Fiber 渲染
+// 新：Fiber 多 root 入口。每个容器独立 fiber 树 / lanes / effect，可在同一页面挂载多个组件
+export function createRoot(container: HTMLElement, options?: RootOptions) {
+  return createFiberRoot(container, options);
+}
+
+// 复用容器内服务端渲染（renderToString）的 DOM，而不是重新创建
+export function hydrateRoot(container: HTMLElement, vnode: VNode, options?: RootOptions) {
+  return hydrateFiberRoot(container, vnode, options);
+}
+
+// 新：Fiber 渲染（兼容入口：同一容器复用同一个 root）
 export function render(vnode: VNode, container: HTMLElement) {
   renderRoot(vnode, container);
 }
 
+// 同步处理 fn 内触发的更新（默认更新在同一任务内批处理，异步提交）
+export function flushSync<R>(fn?: () => R) {
+  return fiberFlushSync(fn);
+}
+
 // 旧：同步 diff 渲染回退（保留调试）
 export function legacyRender(vnode: VNode, container: HTMLElement) {
   const prevVNode = (container as any)._vnode;
@@ -6,6 +6,7 @@
 // - 批量回调：所有任务清空后统一触发提交回调
 // - 去重 / 优先级提升：同一组件多次调度会合并，且可升级优先级
 // - 与 Fiber lanes 概念平行存在（当前架构中 Fiber 主路径使用 scheduleRootUpdate）
+// - 批处理统计：Fiber root 每次提交时上报合并了多少次更新（getCommitBatchStats）
 // =====================================================================
 
 export type Priority = 'user-blocking' | 'high' | 'normal' | 'low' | 'idle';
@@ -38,6 +39,25 @@ function now(){ return performance.now(); }
 export function scheduleCommitCallback(fn:(stats:any)=>void){ commitCallbacks.add(fn); }
 export function getSchedulerStats(){ return latestStats; }
 
+// Fiber 批处理统计：每次 root 提交合并的更新次数（同一任务内多次 setState -> 一次提交）
+export interface CommitBatchStats { id:number; time:number; updates:number; lanes:number; memoBailouts:number; }
+const COMMIT_HISTORY_LIMIT = 50;
+let commitBatchId = 0;
+const commitHistory: CommitBatchStats[] = []; // 最近若干次提交（旧的在前）
+
+// fiber.ts 在提交后调用
+// memoBailouts：本次 render 中 memo 组件因 props 比较相等而跳过的次数（与 props 引用未变的普通 bailout 分开统计）
+export function recordCommitBatch(updates:number, lanes:number, memoBailouts = 0){
+  commitHistory.push({ id:++commitBatchId, time: now(), updates, lanes, memoBailouts });
+  if (commitHistory.length > COMMIT_HISTORY_LIMIT) commitHistory.shift();
+}
+// latest：最近一次提交；coalesced：history 内被合并掉的更新数（各次 updates - 1 之和）
+export function getCommitBatchStats(){
+  const latest = commitHistory[commitHistory.length-1] || null;
+  const coalesced = commitHistory.reduce((n, c) => n + Math.max(0, c.updates - 1), 0);
+  return { latest, coalesced, history: commitHistory.slice() };
+}
+
 function requestFlush(){ if (!scheduled){ scheduled = true; requestHostCallback(); } }
 
 // host 回调：优先使用 requestIdleCallback；降级 setTimeout
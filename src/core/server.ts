@@ -0,0 +1,376 @@
+// server.ts
+// 服务端渲染：renderToString / renderToStaticMarkup（Node 中预渲染页面，不依赖 document / window）
+// - 直接递归 VNode 树：函数组件执行一次，hooks 走 legacy currentComponent 路径
+//   （useState 返回初始值，effect 只登记不执行，setState 无效果）；类组件只构造实例并调用 render，不执行生命周期
+// - 属性序列化与客户端 updateHostComponentProps 对齐：style 对象 / 字符串、on* 事件丢弃、ref / key / children 跳过；
+//   <textarea value> 输出为子文本，<select value> 输出为匹配 option 的 selected（客户端以 el.value 写入，attribute 无效）；
+//   不合法的属性名（如展开用户数据时带入的 key）丢弃，避免注入标记
+// - Context Provider 在子树渲染期间改写 _currentValue，结束后恢复
+// - Suspense：子树抛出 thenable 时输出 fallback；ErrorBoundary：子树抛错时输出 fallback；Portal 不输出
+// - renderToString 在相邻文本节点间插入 <!-- --> 分隔（hydration 据此还原为独立文本节点），renderToStaticMarkup 不插入
+// - renderToReadableStream：流式输出。先输出 shell，挂起的 Suspense 边界输出 fallback（带 <!--$?--> 标记与占位 template）；
+//   数据就绪后以任意顺序追加「隐藏内容 + 内联 $RC 脚本」，在浏览器中把 fallback 替换为真实内容
+//   边界内容出错（shell 阶段或重试时）只上报 onError 并保留 fallback，交给客户端渲染；只有 shell 本身出错才使流以错误结束
+import type { VNode } from './types';
+import { Fragment } from './createElement';
+import { isContextProvider, type Context } from './context';
+import { ErrorBoundary } from './errorBoundary';
+import { Suspense, isThenable } from './suspense';
+import { Portal } from './portal';
+import { setCurrentComponent, resetCurrentComponent } from './hooks';
+import { isClassComponent } from './component';
+
+// 无闭合标签的元素
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+// 客户端以 DOM property 写入、服务端需换成 attribute 名的属性
+const ATTRIBUTE_ALIASES: Record<string, string> = { className: 'class', htmlFor: 'for' };
+// 合法的属性名（与 React 相同的 XML Name 规则）；不匹配的 key 不输出
+const ATTRIBUTE_NAME_START_CHAR = ':A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD';
+const VALID_ATTRIBUTE_NAME = new RegExp('^[' + ATTRIBUTE_NAME_START_CHAR + '][' + ATTRIBUTE_NAME_START_CHAR + '\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040]*$');
+const warnedAttributeNames = new Set<string>();
+
+interface ServerRenderOptions {
+  textSeparators: boolean; // 相邻文本节点间输出 <!-- -->
+}
+
+interface ServerRenderState {
+  options: ServerRenderOptions;
+  lastWasText: boolean;   // 上一次输出是否为文本（决定是否需要分隔注释）
+  contextStack: ContextEntry[]; // 当前位置生效的 Provider 值（流式重试边界时恢复）
+  stream: StreamRequest | null; // 流式渲染时存在：Suspense 挂起不再整体回退，而是登记边界稍后补发
+  selectValue: Set<string> | null; // 所在 <select> 的 value：匹配的 <option> 输出 selected
+}
+
+interface ContextEntry { context: Context<any>; value: any; }
+
+// 流式请求：shell 与每个挂起的边界各算一个未完成任务，全部完成后关闭流
+interface StreamRequest {
+  nextBoundaryId: number;
+  pendingTasks: number;
+  tasks: BoundaryTask[];          // 已登记的边界任务（所在片段被丢弃时需取消）
+  sentCompleteScript: boolean;    // $RC 函数只需发送一次
+  closed: boolean;
+  write(chunk: string): void;
+  close(): void;
+  onError(error: any): void;
+}
+
+interface BoundaryTask {
+  id: number;
+  children: any;
+  contexts: ContextEntry[];       // 挂起时的 Provider 值快照
+  cancelled: boolean;
+}
+
+export interface StreamRenderOptions {
+  onError?: (error: any) => void; // 边界内容渲染出错（保留 fallback，交给客户端渲染）
+}
+
+export type RenderStream = ReadableStream<Uint8Array> & { allReady: Promise<void> };
+
+export function renderToString(vnode: any): string {
+  return renderRootToString(vnode, { textSeparators: true });
+}
+
+export function renderToStaticMarkup(vnode: any): string {
+  return renderRootToString(vnode, { textSeparators: false });
+}
+
+function renderRootToString(vnode: any, options: ServerRenderOptions): string {
+  const state: ServerRenderState = { options, lastWasText: false, contextStack: [], stream: null, selectValue: null };
+  return renderNode(vnode, state);
+}
+
+// 流式渲染：返回 UTF-8 字节流；allReady 在所有边界完成（流关闭）后 resolve
+export function renderToReadableStream(vnode: any, options: StreamRenderOptions = {}): RenderStream {
+  const encoder = new TextEncoder();
+  let resolveAllReady!: () => void, rejectAllReady!: (error: any) => void;
+  const allReady = new Promise<void>((resolve, reject) => { resolveAllReady = resolve; rejectAllReady = reject; });
+  allReady.catch(() => {}); // 未被使用时不产生 unhandled rejection
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const request: StreamRequest = {
+        nextBoundaryId: 0, pendingTasks: 1, tasks: [], sentCompleteScript: false, closed: false,
+        write(chunk) { if (!request.closed && chunk) controller.enqueue(encoder.encode(chunk)); },
+        close() {
+          if (request.closed) return;
+          request.closed = true;
+          controller.close();
+          resolveAllReady();
+        },
+        onError(error) { options.onError ? options.onError(error) : console.error('[server] stream render error', error); }
+      };
+      renderShell(request, vnode, error => {
+        request.closed = true;
+        controller.error(error);
+        rejectAllReady(error);
+      });
+    }
+  });
+  return Object.assign(stream, { allReady });
+}
+
+// shell：不在任何 Suspense 内的部分。挂起时整体等待后重试；出错则流以错误结束
+function renderShell(request: StreamRequest, vnode: any, fail: (error: any) => void) {
+  const state = createStreamState(request, []);
+  const taskStart = request.tasks.length;
+  let html: string;
+  try {
+    html = renderNode(vnode, state);
+  } catch (thrown) {
+    cancelTasksFrom(request, taskStart);
+    if (isThenable(thrown)) { thrown.then(() => renderShell(request, vnode, fail), () => renderShell(request, vnode, fail)); return; }
+    request.onError(thrown);
+    fail(thrown);
+    return;
+  }
+  request.write(html);
+  finishTask(request);
+}
+
+// 边界重试：恢复挂起时的 context 后重新渲染 children；成功则发送隐藏内容 + $RC 替换脚本
+function retryBoundary(request: StreamRequest, task: BoundaryTask) {
+  if (task.cancelled || request.closed) return;
+  const state = createStreamState(request, task.contexts);
+  const taskStart = request.tasks.length;
+  const prevValues = task.contexts.map(({ context, value }) => {
+    const prev = context._currentValue;
+    context._currentValue = value;
+    return prev;
+  });
+  let html: string;
+  try {
+    html = renderNode(task.children, state);
+  } catch (thrown) {
+    cancelTasksFrom(request, taskStart);
+    if (isThenable(thrown)) { waitForBoundary(request, task, thrown); return; }
+    request.onError(thrown); // fallback 保留在页面中
+    finishTask(request);
+    return;
+  } finally {
+    for (let i = task.contexts.length - 1; i >= 0; i--) task.contexts[i].context._currentValue = prevValues[i];
+  }
+  let chunk = '';
+  if (!request.sentCompleteScript) {
+    request.sentCompleteScript = true;
+    chunk += `<script>${COMPLETE_BOUNDARY_FUNCTION}</script>`;
+  }
+  chunk += `<div hidden id="S:${task.id}">${html}</div><script>$RC("B:${task.id}","S:${task.id}")</script>`;
+  request.write(chunk);
+  finishTask(request);
+}
+
+function waitForBoundary(request: StreamRequest, task: BoundaryTask, thenable: PromiseLike<any>) {
+  const retry = () => retryBoundary(request, task);
+  thenable.then(retry, retry);
+}
+
+function createStreamState(request: StreamRequest, contexts: ContextEntry[]): ServerRenderState {
+  return { options: { textSeparators: true }, lastWasText: false, contextStack: contexts.slice(), stream: request, selectValue: null };
+}
+
+// 片段渲染失败被丢弃：其中登记的嵌套边界不会出现在页面上，取消它们
+function cancelTasksFrom(request: StreamRequest, start: number) {
+  for (const task of request.tasks.splice(start)) {
+    if (task.cancelled) continue;
+    task.cancelled = true;
+    request.pendingTasks--;
+  }
+}
+
+function finishTask(request: StreamRequest) {
+  if (--request.pendingTasks === 0) request.close();
+}
+
+// 浏览器端：把 B:id 占位后的 fallback（直到配对的 <!--/$-->）替换为 S:id 中的内容，并把起始标记改为 <!--$-->
+const COMPLETE_BOUNDARY_FUNCTION = 'function $RC(b,s){var t=document.getElementById(b),c=document.getElementById(s);if(!t||!c)return;' +
+  'var p=t.parentNode,m=t.previousSibling,n=t.nextSibling,d=0;' +
+  'while(n){if(n.nodeType===8){if(n.data==="/$"){if(d===0)break;d--}else if(n.data.charAt(0)==="$")d++}var x=n.nextSibling;p.removeChild(n);n=x}' +
+  'while(c.firstChild)p.insertBefore(c.firstChild,n);p.removeChild(t);c.parentNode.removeChild(c);if(m&&m.nodeType===8)m.data="$"}';
+
+// 通用节点：文本 / 数组 / VNode
+function renderNode(node: any, state: ServerRenderState): string {
+  if (node == null || typeof node === 'boolean') return '';
+  if (Array.isArray(node)) return node.map(child => renderNode(child, state)).join('');
+  if (typeof node === 'string' || typeof node === 'number') {
+    const sep = state.options.textSeparators && state.lastWasText ? '<!-- -->' : '';
+    state.lastWasText = true;
+    return sep + escapeText(String(node));
+  }
+  return renderElement(node as VNode, state);
+}
+
+function renderElement(vnode: VNode, state: ServerRenderState): string {
+  const { type } = vnode;
+  const props = vnode.props || {};
+  const children = props.children ?? vnode.children;
+  if (type === Fragment) return renderNode(children, state);
+  if (type === Portal) return ''; // portal 容器只存在于客户端
+  if (typeof type === 'string') return renderHostElement(type, props, children, state);
+  if (isContextProvider(type)) {
+    const context = type._context;
+    const prevValue = context._currentValue;
+    context._currentValue = props.value;
+    state.contextStack.push({ context, value: props.value });
+    try { return renderNode(children, state); } finally { context._currentValue = prevValue; state.contextStack.pop(); }
+  }
+  if (type === Suspense) {
+    if (state.stream) return renderSuspenseStreaming(state.stream, props, children, state);
+    return renderWithFallback(children, state, thrown => {
+      if (!isThenable(thrown)) throw thrown; // 普通错误交给外层 ErrorBoundary
+      return props.fallback;
+    });
+  }
+  if (type === ErrorBoundary) {
+    return renderWithFallback(children, state, thrown => {
+      if (isThenable(thrown)) throw thrown; // 挂起交给外层 Suspense
+      return typeof props.fallback === 'function' ? props.fallback(thrown, () => {}) : props.fallback;
+    });
+  }
+  if (isClassComponent(type)) return renderNode(renderClassComponent(type, props), state);
+  if (typeof type === 'function') return renderNode(renderFunctionComponent(type, props), state);
+  return '';
+}
+
+// 子树抛出时丢弃已生成的部分，改为输出 handle 返回的 fallback
+function renderWithFallback(children: any, state: ServerRenderState, handle: (thrown: any) => any): string {
+  const lastWasText = state.lastWasText;
+  const taskStart = state.stream?.tasks.length ?? 0;
+  try {
+    return renderNode(children, state);
+  } catch (thrown) {
+    if (state.stream) cancelTasksFrom(state.stream, taskStart);
+    state.lastWasText = lastWasText;
+    return renderNode(handle(thrown), state);
+  }
+}
+
+// 流式 Suspense：children 挂起时输出带标记的 fallback，并登记边界任务在 thenable 结束后重试
+// children 出错时与 retryBoundary 相同：上报 onError 并保留 fallback（不登记任务），由客户端渲染该边界，流照常继续
+function renderSuspenseStreaming(request: StreamRequest, props: any, children: any, state: ServerRenderState): string {
+  const taskStart = request.tasks.length;
+  try {
+    return renderNode(children, state);
+  } catch (thrown) {
+    cancelTasksFrom(request, taskStart);
+    const id = request.nextBoundaryId++;
+    if (isThenable(thrown)) {
+      const task: BoundaryTask = { id, children, contexts: state.contextStack.slice(), cancelled: false };
+      request.tasks.push(task);
+      request.pendingTasks++;
+      waitForBoundary(request, task, thrown);
+    } else {
+      request.onError(thrown);
+    }
+    state.lastWasText = false;
+    const fallback = renderNode(props.fallback, state);
+    state.lastWasText = false;
+    return `<!--$?--><template id="B:${id}"></template>${fallback}<!--/$-->`;
+  }
+}
+
+// 函数组件：以一次性组件实例作为 hooks 容器执行（没有 update 方法，setState 不会调度）
+function renderFunctionComponent(type: Function, props: any) {
+  setCurrentComponent({ hooks: [] });
+  try {
+    return type({ ...props });
+  } finally {
+    resetCurrentComponent();
+  }
+}
+
+// 类组件：构造一次性实例并 render（实例未挂载，setState 只会告警）
+function renderClassComponent(type: any, props: any) {
+  const instance = new type(props);
+  instance.props = props;
+  if (instance.state === undefined) instance.state = null;
+  return instance.render();
+}
+
+function renderHostElement(tag: string, props: any, children: any, state: ServerRenderState): string {
+  let html = '<' + tag + renderAttributes(props, FORM_VALUE_TAGS.has(tag));
+  if (tag === 'option' && state.selectValue && state.selectValue.has(getOptionValue(props, children))) html += ' selected=""';
+  if (VOID_ELEMENTS.has(tag)) {
+    state.lastWasText = false;
+    return html + '/>';
+  }
+  state.lastWasText = false;
+  if (tag === 'textarea') {
+    // 客户端写入 el.value；服务端以子文本表示初始内容
+    const value = props.value ?? props.defaultValue;
+    html += '>' + (value != null ? escapeText(String(value)) : renderNode(children, state)) + '</textarea>';
+  } else if (tag === 'select') {
+    const value = props.value ?? props.defaultValue;
+    const prevSelectValue = state.selectValue;
+    state.selectValue = value == null ? null : new Set((Array.isArray(value) ? value : [value]).map(String));
+    try {
+      html += '>' + renderNode(children, state) + '</select>';
+    } finally {
+      state.selectValue = prevSelectValue;
+    }
+  } else {
+    html += '>' + renderNode(children, state) + '</' + tag + '>';
+  }
+  state.lastWasText = false;
+  return html;
+}
+
+// value / defaultValue 不作为 attribute 输出的元素（见 renderHostElement）
+const FORM_VALUE_TAGS = new Set(['textarea', 'select']);
+
+// option 的值：value 属性，否则为文本内容
+function getOptionValue(props: any, children: any): string {
+  if (props.value != null) return String(props.value);
+  const text = (node: any): string => {
+    if (node == null || typeof node === 'boolean') return '';
+    if (Array.isArray(node)) return node.map(text).join('');
+    return typeof node === 'object' ? '' : String(node);
+  };
+  return text(children);
+}
+
+function renderAttributes(props: any, skipValue: boolean): string {
+  let out = '';
+  for (const key in props) {
+    if (key === 'children' || key === 'key' || key === 'ref') continue;
+    if (skipValue && (key === 'value' || key === 'defaultValue')) continue;
+    if (/^on[A-Z]/.test(key)) continue; // 事件处理函数只在客户端绑定
+    const value = props[key];
+    if (value == null || value === false || typeof value === 'function') continue;
+    if (key === 'style') {
+      const css = typeof value === 'string' ? value : serializeStyle(value);
+      if (css) out += ` style="${escapeAttribute(css)}"`;
+      continue;
+    }
+    const name = ATTRIBUTE_ALIASES[key] || key;
+    if (!VALID_ATTRIBUTE_NAME.test(name)) {
+      if (!warnedAttributeNames.has(name)) {
+        warnedAttributeNames.add(name);
+        console.error(`[server] 属性名不合法，已忽略：${JSON.stringify(name)}`);
+      }
+      continue;
+    }
+    out += value === true ? ` ${name}=""` : ` ${name}="${escapeAttribute(String(value))}"`;
+  }
+  return out;
+}
+
+// style 对象：camelCase -> kebab-case，空值跳过
+function serializeStyle(style: Record<string, any>): string {
+  let css = '';
+  for (const key in style) {
+    const value = style[key];
+    if (value == null || value === '' || typeof value === 'boolean') continue;
+    const name = key.startsWith('--') ? key : key.replace(/[A-Z]/g, m => '-' + m.toLowerCase());
+    css += `${name}:${value};`;
+  }
+  return css;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[&<>]/g, ch => (ch === '&' ? '&amp;' : ch === '<' ? '&lt;' : '&gt;'));
+}
+
+function escapeAttribute(text: string): string {
+  return text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#x27;' } as Record<string, string>)[ch]);
+}
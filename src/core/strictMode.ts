@@ -0,0 +1,44 @@
+// strictMode.ts
+// <StrictMode>children</StrictMode>：开发模式下暴露不纯的 render 与缺少清理的 effect（生产构建中不做任何额外工作）
+// - 子树内的函数组件每次 render 执行两次，丢弃第一次的结果；两次输出不同时警告并指出组件名与差异位置
+// - 子树内新挂载的 layout / passive effect 执行 create -> destroy -> create
+// - 模式沿 fiber 树向下继承（fiber.mode），StrictMode 本身与 Fragment 一样只下放 children
+// - 服务端渲染 / legacy render 中按普通组件处理（直接返回 children）
+
+export interface StrictModeProps {
+  children?: any;
+}
+
+// 标记组件：Fiber 通过引用比较识别为 Mode 节点，不会直接调用
+export function StrictMode(props: StrictModeProps): any {
+  return props.children;
+}
+
+// 比较两次 render 的输出（VNode 树）：返回第一处差异的描述，相同返回 null
+// - 函数一律视为相同：内联回调每次 render 都是新函数，不算不纯
+// - props.children 与 children 内容相同，只比较后者
+const MAX_DIFF_DEPTH = 32; // 避免深层 / 循环引用的 props 对象（如 DOM 节点）导致无限递归
+
+export function findRenderOutputDiff(a: any, b: any, path = 'output', depth = 0): string | null {
+  if (Object.is(a, b)) return null;
+  if (typeof a === 'function' && typeof b === 'function') return null;
+  if (depth > MAX_DIFF_DEPTH) return null;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return `${path}: ${describeValue(a)} -> ${describeValue(b)}`;
+  }
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (key === 'children' && path.endsWith('.props')) continue;
+    const diff = findRenderOutputDiff(a[key], b[key], Array.isArray(a) ? `${path}[${key}]` : `${path}.${key}`, depth + 1);
+    if (diff) return diff;
+  }
+  return null;
+}
+
+function describeValue(value: any): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'function') return value.name || 'function';
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (value && typeof value === 'object') return 'type' in value ? `<${typeof value.type === 'string' ? value.type : value.type?.name || String(value.type)}>` : 'Object';
+  return String(value);
+}
@@ -0,0 +1,39 @@
+// suspense.ts
+// Suspense 边界 + lazy() 代码分割
+// - <Suspense fallback={...}>children</Suspense>：子树 render 中抛出 Promise（thenable）时，
+//   最近的 Suspense 提交 fallback；Promise 结束后通过 scheduleRootUpdate 重试渲染
+// - 挂起期间主内容的 fiber 保留在隐藏的 Offscreen 节点下（DOM 置为 display:none），hook 状态不丢失
+// - lazy(() => import('./X'))：首次渲染抛出加载 Promise，加载完成后渲染模块 default 导出（或直接返回的组件）
+import { createElement } from './createElement';
+
+export interface SuspenseProps {
+  fallback?: any;
+  children?: any;
+}
+
+// 标记组件：Fiber 通过引用比较识别为 SuspenseComponent，不会直接调用
+export function Suspense(props: SuspenseProps): any {
+  return props.children;
+}
+
+export function isThenable(value: any): value is PromiseLike<any> {
+  return value != null && (typeof value === 'object' || typeof value === 'function') && typeof value.then === 'function';
+}
+
+type LazyModule<P> = { default: (props: P) => any } | ((props: P) => any);
+
+export function lazy<P = any>(loader: () => PromiseLike<LazyModule<P>>): (props: P) => any {
+  let status: 'uninitialized' | 'pending' | 'resolved' | 'rejected' = 'uninitialized';
+  let result: any = null; // pending: Promise；resolved: 组件；rejected: 错误
+  return function LazyComponent(props: P) {
+    if (status === 'uninitialized') {
+      status = 'pending';
+      result = Promise.resolve(loader()).then(
+        (mod: any) => { status = 'resolved'; result = mod && typeof mod === 'object' && 'default' in mod ? mod.default : mod; },
+        (error: any) => { status = 'rejected'; result = error; }
+      );
+    }
+    if (status === 'resolved') return createElement(result, props as any);
+    throw result; // pending -> 抛出 Promise 交给 Suspense；rejected -> 抛出错误交给 ErrorBoundary
+  };
+}
@@ -0,0 +1,260 @@
+// testRenderer.ts
+// 测试渲染器：把 fiber 树挂载到纯 JS 对象上（不需要 DOM / window），用于在 Node 中做组件单测与快照
+// - testHostConfig：内存宿主，节点为 { type, props, children } 普通对象
+// - createTestRenderer(element) 返回 { root, toJSON, update, unmount }：
+//   toJSON() 输出可快照的宿主树；root 为 fiber 树上的查询入口（findByType / findByProps 等）
+// - act(fn)：执行 fn 后同步冲刷本宿主登记的所有任务（批处理 render、时间片、被延后的 passive effects），
+//   测试中无需等待定时器；fn 返回 Promise 时先等待其完成再冲刷
+// - act 之外，任务仍按真实的微任务 / 定时器时序执行（与 DOM 宿主一致）
+import type { VNode } from './types';
+import type { HostConfig, IdleDeadlineLike } from './hostConfig';
+import { createHostRoot, getCurrentRootFiber, flushSync, FiberTag, type FiberNode } from './fiber';
+
+// ======================== 内存宿主 ========================
+export interface TestHostElement {
+  kind: 'element';
+  type: string;
+  props: Record<string, any>;
+  children: TestHostNode[];
+  isHidden: boolean; // Suspense 隐藏主内容时为 true，toJSON 跳过
+}
+
+export interface TestHostText {
+  kind: 'text';
+  text: string;
+  isHidden: boolean;
+}
+
+export type TestHostNode = TestHostElement | TestHostText;
+
+export interface TestHostContainer {
+  kind: 'container';
+  children: TestHostNode[];
+}
+
+// 等待执行的宿主任务：act 中统一冲刷，act 之外由真实的微任务 / 定时器触发；先到者执行，另一方跳过
+interface HostTask { run: () => void; done: boolean; }
+
+const pendingTasks: HostTask[] = [];
+let actDepth = 0;
+const ACT_TASK_LIMIT = 10000; // 单次冲刷的任务上限（超过视为更新无法稳定）
+
+function enqueueTask(run: () => void, schedule: (fn: () => void) => void) {
+  const task: HostTask = { run, done: false };
+  pendingTasks.push(task);
+  schedule(() => runTask(task));
+}
+
+function runTask(task: HostTask) {
+  if (task.done) return;
+  task.done = true;
+  const index = pendingTasks.indexOf(task);
+  if (index >= 0) pendingTasks.splice(index, 1);
+  task.run();
+}
+
+function flushTasks() {
+  let count = 0;
+  while (pendingTasks.length) {
+    if (++count > ACT_TASK_LIMIT) throw new Error('act: 任务冲刷超出上限，可能存在无条件 setState 的 effect');
+    runTask(pendingTasks[0]);
+  }
+}
+
+function detach(parent: TestHostContainer | TestHostElement, child: TestHostNode) {
+  const index = parent.children.indexOf(child);
+  if (index >= 0) parent.children.splice(index, 1);
+}
+
+export const testHostConfig: HostConfig<TestHostContainer, TestHostElement, TestHostText> = {
+  createInstance(type, props) {
+    return { kind: 'element', type, props, children: [], isHidden: false };
+  },
+  createTextInstance(text) {
+    return { kind: 'text', text, isHidden: false };
+  },
+  appendChild(parent, child) {
+    detach(parent, child); // 已在树中（移动）时先摘下
+    parent.children.push(child);
+  },
+  insertBefore(parent, child, before) {
+    detach(parent, child);
+    const index = parent.children.indexOf(before);
+    parent.children.splice(index >= 0 ? index : parent.children.length, 0, child);
+  },
+  removeChild(parent, child) {
+    detach(parent, child);
+  },
+  commitUpdate(instance, _oldProps, newProps) {
+    instance.props = newProps;
+  },
+  commitTextUpdate(textInstance, _oldText, newText) {
+    textInstance.text = newText;
+  },
+  hideInstance(instance) { instance.isHidden = true; },
+  unhideInstance(instance) { instance.isHidden = false; },
+  hideTextInstance(textInstance) { textInstance.isHidden = true; },
+  unhideTextInstance(textInstance, text) { textInstance.text = text; textInstance.isHidden = false; },
+  now: () => Date.now(),
+  scheduleMicrotask: fn => enqueueTask(fn, queueMicrotask),
+  scheduleTimeout: (fn, ms) => enqueueTask(fn, run => { setTimeout(run, ms); }),
+  scheduleIdleCallback(cb) {
+    // act 中时间片不受限（仍会按 FRAME_BUDGET 让出，让出后的续跑同样在本次冲刷内完成）
+    const deadline: IdleDeadlineLike = { timeRemaining: () => (actDepth > 0 ? Infinity : IDLE_BUDGET) };
+    enqueueTask(() => cb(deadline), run => { setTimeout(run, 1); });
+  }
+};
+
+const IDLE_BUDGET = 8; // act 之外模拟的时间片 (ms)
+
+// ======================== act ========================
+export function act(fn: () => void): void;
+export function act(fn: () => Promise<unknown>): Promise<void>;
+export function act(fn: () => void | Promise<unknown>): void | Promise<void> {
+  actDepth++;
+  let result: void | Promise<unknown>;
+  try {
+    result = fn();
+  } catch (e) {
+    actDepth--;
+    throw e;
+  }
+  if (result && typeof (result as any).then === 'function') {
+    return Promise.resolve(result).then(
+      () => { try { flushTasks(); } finally { actDepth--; } },
+      (e) => { actDepth--; throw e; }
+    );
+  }
+  try { flushTasks(); } finally { actDepth--; }
+}
+
+// ======================== toJSON ========================
+export interface TestRendererJSON {
+  type: string;
+  props: Record<string, any>;
+  children: Array<TestRendererJSON | string> | null;
+}
+
+// key / ref / children 不属于快照中的 props
+const OMITTED_PROPS = new Set(['children', 'key', 'ref']);
+
+function toJSONChildren(nodes: TestHostNode[]): Array<TestRendererJSON | string> {
+  const out: Array<TestRendererJSON | string> = [];
+  for (const node of nodes) {
+    if (node.isHidden) continue;
+    if (node.kind === 'text') out.push(node.text);
+    else out.push(elementToJSON(node));
+  }
+  return out;
+}
+
+function elementToJSON(el: TestHostElement): TestRendererJSON {
+  const props: Record<string, any> = {};
+  for (const k in el.props) if (!OMITTED_PROPS.has(k)) props[k] = el.props[k];
+  const children = toJSONChildren(el.children);
+  return { type: el.type, props, children: children.length ? children : null };
+}
+
+// ======================== 查询（fiber 树）========================
+// TestInstance 对应组件或宿主元素 fiber；Fragment / Provider / Offscreen 等结构性 fiber 透明跳过，文本以字符串出现在 children 中。
+// 实例反映读取 renderer.root 时的已提交树，更新后需重新读取
+export interface TestInstance {
+  type: any;
+  props: Record<string, any>;
+  instance: any;                 // 类组件实例（其余为 null）
+  parent: TestInstance | null;
+  children: Array<TestInstance | string>;
+  find(predicate: (node: TestInstance) => boolean): TestInstance;
+  findAll(predicate: (node: TestInstance) => boolean): TestInstance[];
+  findByType(type: any): TestInstance;
+  findAllByType(type: any): TestInstance[];
+  findByProps(props: Record<string, any>): TestInstance;
+  findAllByProps(props: Record<string, any>): TestInstance[];
+}
+
+function isInstanceFiber(fiber: FiberNode) {
+  return fiber.tag === FiberTag.HostComponent || fiber.tag === FiberTag.FunctionComponent || fiber.tag === FiberTag.ClassComponent
+    || fiber.tag === FiberTag.ErrorBoundary || fiber.tag === FiberTag.SuspenseComponent;
+}
+
+// 收集 fiber 下一层可见的实例 / 文本（穿过结构性 fiber）
+function collectChildren(fiber: FiberNode, parent: TestInstance | null, out: Array<TestInstance | string>) {
+  let child = fiber.child;
+  while (child) {
+    if (child.tag === FiberTag.Text) out.push(String(child.memoizedProps));
+    else if (isInstanceFiber(child)) out.push(wrapFiber(child, parent));
+    else collectChildren(child, parent, out);
+    child = child.sibling;
+  }
+  return out;
+}
+
+function wrapFiber(fiber: FiberNode, parent: TestInstance | null): TestInstance {
+  let children: Array<TestInstance | string> | null = null;
+  const instance: TestInstance = {
+    type: fiber.type,
+    props: fiber.memoizedProps ?? fiber.pendingProps ?? {},
+    instance: fiber.tag === FiberTag.ClassComponent ? fiber.stateNode : null,
+    parent,
+    get children() { return children || (children = collectChildren(fiber, instance, [])); },
+    find: predicate => expectOne(findAll(instance, predicate, false), '满足条件的实例'),
+    findAll: predicate => findAll(instance, predicate, true),
+    findByType: type => expectOne(findAll(instance, node => node.type === type, false), `type 为 ${describeType(type)} 的实例`),
+    findAllByType: type => findAll(instance, node => node.type === type, true),
+    findByProps: props => expectOne(findAll(instance, node => matchesProps(node, props), false), `props 匹配 ${JSON.stringify(props)} 的实例`),
+    findAllByProps: props => findAll(instance, node => matchesProps(node, props), true)
+  };
+  return instance;
+}
+
+// 深度优先，包含自身。deep 为 false 时命中节点不再向下查找：
+// 组件把 props 透传给宿主元素时，find* 只返回外层那个，而不是因两者同时命中而报错
+function findAll(root: TestInstance, predicate: (node: TestInstance) => boolean, deep: boolean): TestInstance[] {
+  const out: TestInstance[] = [];
+  const visit = (node: TestInstance) => {
+    if (predicate(node)) {
+      out.push(node);
+      if (!deep) return;
+    }
+    for (const child of node.children) if (typeof child !== 'string') visit(child);
+  };
+  visit(root);
+  return out;
+}
+
+function matchesProps(node: TestInstance, props: Record<string, any>) {
+  for (const k in props) if (node.props[k] !== props[k]) return false;
+  return true;
+}
+
+function expectOne(matches: TestInstance[], what: string): TestInstance {
+  if (matches.length !== 1) throw new Error(`[testRenderer] 期望恰好 1 个${what}，实际 ${matches.length} 个`);
+  return matches[0];
+}
+
+function describeType(type: any) {
+  return typeof type === 'string' ? `<${type}>` : type?.name || String(type);
+}
+
+// ======================== createTestRenderer ========================
+export function createTestRenderer(element: VNode) {
+  const container: TestHostContainer = { kind: 'container', children: [] };
+  const root = createHostRoot(testHostConfig, container);
+  // 与 React 测试渲染器一致：create / update 同步提交（passive effects 仍延后，需 act 冲刷）
+  flushSync(() => root.render(element));
+  return {
+    // 顶层（HostRoot 下一层）唯一的实例
+    get root(): TestInstance {
+      const rootFiber = getCurrentRootFiber(container);
+      const top = rootFiber ? collectChildren(rootFiber, null, []).filter(c => typeof c !== 'string') as TestInstance[] : [];
+      return expectOne(top, '顶层实例');
+    },
+    toJSON(): TestRendererJSON | string | Array<TestRendererJSON | string> | null {
+      const children = toJSONChildren(container.children);
+      if (!children.length) return null;
+      return children.length === 1 ? children[0] : children;
+    },
+    update(next: VNode) { flushSync(() => root.render(next)); },
+    unmount() { root.unmount(); }
+  };
+}
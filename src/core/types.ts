@@ -11,4 +11,4 @@ export type VNode = {
   componentInstance?: any; // 组件实例（用于 hooks）
   childVNode?: VNode; // 函数组件的子树
 };
-// 预留 HostConfig / Fragment 标记在 fiber.ts 中具体处理
+// Fragment 标记在 fiber.ts 中具体处理；宿主相关类型见 hostConfig.ts
@@ -0,0 +1,192 @@
+// DevToolsPanel.tsx
+// 页面内检查器：用 react-mini 自身渲染，数据来自 DevTools 全局 hook（core/devtools.ts）
+// - 左侧 fiber 树（各 root 最近一次提交），点击节点查看 props / hooks / 类组件 state；本次提交 memo bailout 的组件带 memo 标记
+// - useState 的值可直接编辑（输入 JSON，解析失败按字符串处理），回车或失焦后以 user-blocking 更新提交
+// - 勾选「高亮更新」时，为上次提交中插入 / 更新的 DOM 节点描边
+// 面板自身的 root 通过 ignoreContainer 排除，不会出现在树中
+import { createElement, createRoot, useState, useSyncExternalStore, installDevToolsHook, type DevToolsHook, type DevToolsCommit, type DevToolsFiberSnapshot, type InspectedHook } from '../core';
+
+const HIGHLIGHT_DURATION = 800; // 描边保留时间 (ms)
+
+// 面板选项：高亮在 hook 监听器中执行（不依赖面板 render），面板只负责切换
+interface PanelOptions { highlightUpdates: boolean; }
+
+// ======================== 提交数据 store ========================
+// getLatestCommits() 每次返回新数组：缓存到下一次提交，满足 useSyncExternalStore 对快照稳定的要求
+function createCommitStore(hook: DevToolsHook) {
+  let commits = hook.getLatestCommits();
+  const listeners = new Set<() => void>();
+  hook.subscribe(() => {
+    commits = hook.getLatestCommits();
+    listeners.forEach(listener => listener());
+  });
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    getSnapshot: () => commits
+  };
+}
+
+// ======================== 更新高亮 ========================
+let highlightLayer: HTMLElement | null = null;
+
+function highlightNodes(nodes: any[]) {
+  if (!highlightLayer) {
+    highlightLayer = document.createElement('div');
+    highlightLayer.style.cssText = 'position:fixed;left:0;top:0;pointer-events:none;z-index:2147483646;';
+    document.body.appendChild(highlightLayer);
+  }
+  for (const node of nodes) {
+    if (!(node instanceof Element) || !node.isConnected) continue;
+    const rect = node.getBoundingClientRect();
+    const outline = document.createElement('div');
+    outline.style.cssText = `position:fixed;left:${rect.left}px;top:${rect.top}px;width:${rect.width}px;height:${rect.height}px;`
+      + 'box-sizing:border-box;border:2px solid #f5a623;transition:opacity .4s;';
+    highlightLayer.appendChild(outline);
+    setTimeout(() => { outline.style.opacity = '0'; }, HIGHLIGHT_DURATION / 2);
+    setTimeout(() => outline.remove(), HIGHLIGHT_DURATION);
+  }
+}
+
+// ======================== 组件 ========================
+const styles = {
+  panel: { position: 'fixed', right: '8px', bottom: '8px', width: '420px', maxHeight: '50vh', display: 'flex', flexDirection: 'column', background: '#fff', border: '1px solid #999', boxShadow: '0 2px 8px rgba(0,0,0,.2)', font: '12px/1.5 monospace', zIndex: '2147483647' },
+  header: { display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 8px', background: '#20232a', color: '#61dafb' },
+  body: { display: 'flex', minHeight: '0', flex: '1' },
+  tree: { flex: '1', overflow: 'auto', padding: '4px 0', borderRight: '1px solid #ddd' },
+  details: { width: '180px', overflow: 'auto', padding: '4px 8px' },
+  input: { width: '100%', boxSizing: 'border-box', font: 'inherit' },
+  badge: { marginLeft: '4px', padding: '0 3px', borderRadius: '2px', background: '#e8f5e9', color: '#2e7d32', fontSize: '10px' }
+};
+
+export function DevToolsPanel(props: { hook: DevToolsHook; options: PanelOptions }) {
+  const { hook, options } = props;
+  const [store] = useState(() => createCommitStore(hook));
+  const commits = useSyncExternalStore<DevToolsCommit[]>(store.subscribe, store.getSnapshot);
+  const [open, setOpen] = useState(true);
+  const [highlight, setHighlight] = useState(options.highlightUpdates);
+  const [selectedId, setSelectedId] = useState(0);
+  const selected = findSnapshot(commits, selectedId);
+
+  const toggleHighlight = () => {
+    options.highlightUpdates = !highlight;
+    setHighlight(!highlight);
+  };
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <strong style={{ flex: '1' }}>react-mini DevTools</strong>
+        <label style={{ color: '#fff' }}>
+          <input type="checkbox" checked={highlight} onChange={toggleHighlight} /> 高亮更新
+        </label>
+        <button onClick={() => setOpen(!open)}>{open ? '收起' : '展开'}</button>
+      </div>
+      {open && (
+        <div style={styles.body}>
+          <div style={styles.tree}>
+            {commits.length === 0 && <div style={{ padding: '0 8px', color: '#999' }}>暂无提交</div>}
+            {commits.map(commit => (
+              <TreeNode key={commit.rootId} node={commit.tree} depth={0} selectedId={selectedId} onSelect={setSelectedId} />
+            ))}
+          </div>
+          <div style={styles.details}>
+            {selected ? <FiberDetails hook={hook} node={selected} /> : <span style={{ color: '#999' }}>选择节点查看详情</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TreeNode(props: { node: DevToolsFiberSnapshot; depth: number; selectedId: number; onSelect: (id: number) => void }) {
+  const { node, depth, selectedId, onSelect } = props;
+  const isHost = node.tag === 'HostComponent' || node.tag === 'Text';
+  const label = node.tag === 'Text' ? JSON.stringify(node.props.text) : `<${node.name}${node.key != null ? ` key="${node.key}"` : ''}>`;
+  return (
+    <div>
+      <div
+        style={{ paddingLeft: `${8 + depth * 12}px`, cursor: 'pointer', whiteSpace: 'nowrap', color: isHost ? '#888' : '#8b3fb5', background: node.id === selectedId ? '#e6f3ff' : 'transparent' }}
+        onClick={() => onSelect(node.id)}
+      >
+        {label}
+        {node.memoBailout && <span style={styles.badge} title="props 比较相等，本次提交跳过 render">memo</span>}
+      </div>
+      {node.children.map(child => (
+        <TreeNode key={child.id} node={child} depth={depth + 1} selectedId={selectedId} onSelect={onSelect} />
+      ))}
+    </div>
+  );
+}
+
+function FiberDetails(props: { hook: DevToolsHook; node: DevToolsFiberSnapshot }) {
+  const { hook, node } = props;
+  return (
+    <div>
+      <div><strong>{node.name}</strong> <span style={{ color: '#999' }}>{node.tag}</span></div>
+      <div style={{ marginTop: '4px', color: '#555' }}>props</div>
+      <pre style={{ margin: '0', whiteSpace: 'pre-wrap' }}>{formatValue(node.props)}</pre>
+      {node.state != null && <div style={{ marginTop: '4px', color: '#555' }}>state</div>}
+      {node.state != null && <pre style={{ margin: '0', whiteSpace: 'pre-wrap' }}>{formatValue(node.state)}</pre>}
+      {node.hooks.length > 0 && <div style={{ marginTop: '4px', color: '#555' }}>hooks</div>}
+      {node.hooks.map(h => <HookRow key={h.index} hook={hook} fiberId={node.id} inspected={h} />)}
+    </div>
+  );
+}
+
+function HookRow(props: { hook: DevToolsHook; fiberId: number; inspected: InspectedHook }) {
+  const { hook, fiberId, inspected } = props;
+  const commit = (e: any) => {
+    const text = e.target.value;
+    if (text === formatValue(inspected.value)) return;
+    hook.overrideHookState(fiberId, inspected.index, parseValue(text));
+  };
+  return (
+    <div style={{ marginBottom: '2px' }}>
+      <span style={{ color: '#555' }}>{inspected.index} {inspected.name}</span>
+      {inspected.editable
+        ? <input style={styles.input} value={formatValue(inspected.value)} onBlur={commit} onKeyDown={(e: any) => { if (e.key === 'Enter') commit(e); }} />
+        : <pre style={{ margin: '0', whiteSpace: 'pre-wrap' }}>{formatValue(inspected.value)}</pre>}
+    </div>
+  );
+}
+
+function findSnapshot(commits: DevToolsCommit[], id: number): DevToolsFiberSnapshot | null {
+  const visit = (node: DevToolsFiberSnapshot): DevToolsFiberSnapshot | null => {
+    if (node.id === id) return node;
+    for (const child of node.children) {
+      const found = visit(child);
+      if (found) return found;
+    }
+    return null;
+  };
+  for (const commit of commits) {
+    const found = visit(commit.tree);
+    if (found) return found;
+  }
+  return null;
+}
+
+function formatValue(value: any): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function parseValue(text: string): any {
+  if (text === 'undefined') return undefined;
+  try { return JSON.parse(text); } catch { return text; }
+}
+
+// ======================== 挂载 ========================
+// 安装 hook 并把面板渲染到独立容器（默认追加到 body）；需在应用首次 render 之前调用才能收到其首次提交
+export function mountDevToolsPanel(container?: HTMLElement) {
+  const hook = installDevToolsHook();
+  const target = container || document.body.appendChild(document.createElement('div'));
+  hook.ignoreContainer(target);
+  const options: PanelOptions = { highlightUpdates: true };
+  hook.subscribe(commit => { if (options.highlightUpdates) highlightNodes(commit.changedNodes); });
+  const root = createRoot(target);
+  root.render(<DevToolsPanel hook={hook} options={options} />);
+  return root;
+}
@@ -1,16 +1,27 @@
 // App.tsx
 // 基于自定义 createElement 的 JSX 示例入口组件
-import { createElement, useState } from '../core';
+import { createElement, useState, Profiler, type ProfilerOnRender } from '../core';
 import { FiberCounter } from './FiberCounter';
 // import { NonFiberCounter } from './NonFiberCounter';
 
+// Profiler 记录：最近 N 次提交的耗时（换成 NonFiberCounter 时沿用同一 id，便于两者对比）
+const MAX_PROFILE_SAMPLES = 50;
+const profileSamples: Array<Record<string, any>> = [];
+const recordProfile: ProfilerOnRender = (id, phase, actualDuration, baseDuration, startTime, commitTime, lanes) => {
+  profileSamples.push({ id, phase, actualDuration: +actualDuration.toFixed(2), baseDuration: +baseDuration.toFixed(2), renderMs: +(commitTime - startTime).toFixed(2), lanes });
+  if (profileSamples.length > MAX_PROFILE_SAMPLES) profileSamples.shift();
+};
+
 export function App() {
   const [demo, setDemo] = useState(0);
   return (
     <div>
       <h1 style={{ fontFamily: 'monospace' }}>React-mini 示例 (demo={demo})</h1>
       <button onClick={() => setDemo((d: number) => d + 1)}>本地计数 +1</button>
-      <FiberCounter />
+      <button onClick={() => console.table(profileSamples)}>打印 Profiler 记录</button>
+      <Profiler id="Counter" onRender={recordProfile}>
+        <FiberCounter />
+      </Profiler>
     </div>
   );
 }
@@ -1,6 +1,6 @@
 // FiberCounter.tsx
-// JSX 版：固定行高虚拟化 + 多优先级计数示例
-import { createElement, useState, useEffect } from '../core';
+// JSX 版：固定行高虚拟化 + 多优先级计数示例（列表通过 useDeferredValue 滞后于高优交互）
+import { createElement, useState, useEffect, useTransition, useDeferredValue, memo } from '../core';
 
 const TOTAL = 20000;          // 总行数
 const ROW_HEIGHT = 20;         // 固定行高 (px)
@@ -14,12 +14,21 @@ function calcRange(scrollTop: number, vpHeight: number) {
   return { start, end };
 }
 
+// 列表行：序号由 CSS counter 绘制；memo 使父组件重新 render 时行本身不再执行
+const Row = memo(function Row(_props: { index: number }) {
+  return <li></li>;
+});
+
 export function FiberCounter() {
   const [count, setCount] = useState(0);        // 低优先级计数（offset）
   const [highCount, setHighCount] = useState(0);// 高优先级演示（不影响大列表）
   const [scrollTop, setScrollTop] = useState(0);
   const [viewPort, setViewPort] = useState({ start:0, end:0, height:VIEWPORT_HEIGHT });
   const [items, setItems] = useState([] as any[]);
+  const [text, setText] = useState('');
+  const [isPending, startTransition] = useTransition();
+  // 列表使用延迟值：高优 render 先沿用旧 offset，随后以 transition lane 追上
+  const deferredCount = useDeferredValue(count);
 
   // 注入基础样式（只一次）
   useEffect(() => {
@@ -51,7 +60,7 @@ export function FiberCounter() {
     const { start, end } = calcRange(st, viewPort.height);
     const slice: any[] = [];
     for (let i = start; i < end; i++) {
-      slice.push(<li key={i}></li>);
+      slice.push(<Row key={i} index={i} />);
     }
     setItems(slice);
     setViewPort((v:any) => ({ ...v, start, end }));
@@ -78,11 +87,14 @@ export function FiberCounter() {
         <input
           placeholder="高优先级输入（应流畅）"
           style="width:240px;margin-right:8px;"
+          value={text}
+          onInput={(e: any) => setText(e.target.value)}
         />
         <button onClick={() => setCount((c:any)=>c+1,'normal')}>低优先级 +1 (count={count})</button>
         <button onClick={() => setHighCount((c:any)=>c+1,'high')} style="margin-left:8px;">高优先级 +1 (high={highCount})</button>
         <button onClick={() => setCount((c:any)=>c+5,'low')} style="margin-left:8px;">低优先级 +5(low)</button>
         <button onClick={() => setCount((c:any)=>c+1,'idle')} style="margin-left:8px;">idle +1</button>
+        <button onClick={() => startTransition(() => setCount((c:any)=>c+100))} style="margin-left:8px;">transition +100{isPending ? ' (pending…)' : ''}</button>
         <button onClick={() => setHighCount((c:any)=>c+1,'user-blocking')} style="margin-left:8px;color:#c00;">极高优先(user-blocking)</button>
       </div>
       <div style="margin:6px 0;font:12px/1.4 monospace;color:#333;">
@@ -91,7 +103,7 @@ export function FiberCounter() {
       <div className="fiber-viewport" onScroll={onScroll}>
         <div style={`height:${totalHeight}px;position:relative;`}>
           <div style={`position:absolute;top:${topOffset}px;left:0;right:0;`}>
-            <ol className="fiber-offset-list" style={`counter-reset:item ${count + viewPort.start};`}>
+            <ol className="fiber-offset-list" style={`counter-reset:item ${deferredCount + viewPort.start};`}>
               {items}
             </ol>
           </div>
@@ -19,6 +19,8 @@ declare global {
     interface ElementClass {}
     interface ElementAttributesProperty { props: {}; }
     interface ElementChildrenAttribute { children: 'children'; }
+    // 所有元素（含函数组件）都可带 key
+    interface IntrinsicAttributes { key?: any; }
     interface IntrinsicElements {
       div: MiniHTMLAttributes;
       h1: MiniHTMLAttributes;
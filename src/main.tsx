@@ -1,8 +1,12 @@
 // main.ts
 // 应用入口，渲染根组件到页面 (Fiber Phase1)
-import { render } from './core/render';
+import { createRoot } from './core/render';
 import { App } from './examples/App';
 import { createElement } from './core/createElement';
+import { mountDevToolsPanel } from './devtools/DevToolsPanel';
 
-const root = document.getElementById('root');
-render(<App />, root!);
+// 开发模式挂载页面内 DevTools 面板（需早于应用首次 render，才能收到其首次提交）
+if (import.meta.env.DEV) mountDevToolsPanel();
+
+const root = createRoot(document.getElementById('root')!);
+root.render(<App />);